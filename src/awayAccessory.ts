@@ -0,0 +1,62 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { TekmarHomebridgePlatform } from './platform.js';
+import type { Location } from './types/api.js';
+
+/**
+ * Away Mode Accessory
+ * One instance is created per location that supports away mode.
+ * The switch is On while the location is Away and Off while it is Home.
+ */
+export class TekmarAwaySwitchAccessory {
+  private service: Service;
+  private locationId: string;
+
+  constructor(
+    private readonly platform: TekmarHomebridgePlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    const location = accessory.context.location as { locationId: string; name: string };
+    this.locationId = location.locationId;
+
+    // set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Tekmar')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Away Mode')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.locationId);
+
+    // get the Switch service if it exists, otherwise create a new Switch service
+    this.service = this.accessory.getService(this.platform.Service.Switch) ||
+      this.accessory.addService(this.platform.Service.Switch);
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.displayName);
+
+    // On (read/write) - only onSet, value is kept up-to-date via location polling
+    this.service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setOn.bind(this));
+  }
+
+  /**
+   * Refresh the switch from location data returned by getLocations
+   */
+  updateLocation(location: Location) {
+    this.service.updateCharacteristic(this.platform.Characteristic.On, location.awayState !== 0);
+  }
+
+  /**
+   * Handle "SET" requests for On
+   */
+  private async setOn(value: CharacteristicValue): Promise<void> {
+    const away = value as boolean;
+    try {
+      this.platform.log.info(`Set away mode for ${this.accessory.displayName} -> ${away ? 'Away' : 'Home'}`);
+      const apiClient = this.platform.getApiClient();
+      const location = await apiClient.setLocationAwayMode(this.locationId, away);
+      this.updateLocation(location);
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      this.platform.log.error('Failed to set away mode:', err.message || 'Unknown error');
+      throw this.platform.toHapStatusError(error);
+    }
+  }
+}
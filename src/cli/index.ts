@@ -8,25 +8,96 @@
 import { Command } from 'commander';
 import * as readline from 'readline';
 import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as os from 'os';
 import { WattsAuth } from '../lib/api/auth.js';
-import { WattsApiClient } from '../lib/api/client.js';
+import { SCHEDULE_GROUP_KEYS, WattsApiClient } from '../lib/api/client.js';
+import {
+  WattsAuthError,
+  WattsDeviceOfflineError,
+  WattsError,
+  WattsNetworkError,
+  WattsRateLimitError,
+  WattsServerError,
+  WattsValidationError,
+} from '../lib/api/errors.js';
+import { EnergyHistoryStore, energyToCsv } from '../lib/energy.js';
+import { formatReading, sensorProblem } from '../lib/sensors.js';
+import { supportedModes, ThermostatMode } from '../lib/modes.js';
+import { describeHold } from '../lib/hold.js';
+import { PLUGIN_NAME } from '../settings.js';
+import type { WeeklySchedule } from '../types/api.js';
 
 const program = new Command();
 
-// Initialize auth and client
-const auth = new WattsAuth();
-const api = new WattsApiClient(auth);
+// Initialize auth and client (WATTS_LOGIN_BASE / WATTS_API_BASE point them at a test server)
+const auth = new WattsAuth(undefined, undefined, process.env.WATTS_LOGIN_BASE || undefined);
+const api = new WattsApiClient(auth, process.env.WATTS_API_BASE || undefined);
+
+// Exit codes, so scripts can tell failures apart
+const EXIT_ERROR = 1; // Anything not listed below
+const EXIT_USAGE = 2; // Invalid arguments, or the API rejected the values sent
+const EXIT_AUTH = 3; // Not logged in, or tokens rejected: run "watts-cli login"
+const EXIT_RATE_LIMITED = 4;
+const EXIT_DEVICE_OFFLINE = 5;
+const EXIT_NETWORK = 6; // No response from the API, including timeouts
+const EXIT_SERVER = 7; // The API failed on its side
+
+// Pick the exit code for an error
+function exitCodeFor(error: unknown): number {
+  if (error instanceof WattsAuthError) {
+    return EXIT_AUTH;
+  }
+  if (error instanceof WattsRateLimitError) {
+    return EXIT_RATE_LIMITED;
+  }
+  if (error instanceof WattsDeviceOfflineError) {
+    return EXIT_DEVICE_OFFLINE;
+  }
+  if (error instanceof WattsValidationError) {
+    return EXIT_USAGE;
+  }
+  if (error instanceof WattsNetworkError) {
+    return EXIT_NETWORK;
+  }
+  if (error instanceof WattsServerError) {
+    return EXIT_SERVER;
+  }
+  return EXIT_ERROR;
+}
+
+// Print the HTTP status, retry hint and request ID of an API error, when known
+function printErrorDetails(error: unknown) {
+  if (!(error instanceof WattsError)) {
+    return;
+  }
+  if (error.status) {
+    console.error(`HTTP Status: ${error.status}`);
+  }
+  if (error.retryAfter !== undefined) {
+    console.error(`Retry after: ${error.retryAfter}s`);
+  }
+  if (error.requestId) {
+    console.error(`Request ID: ${error.requestId}`);
+  }
+}
+
+// Print an error and exit with the code for its type
+function exitWithError(error: unknown): never {
+  const err = error as { message?: string };
+  console.error(`Error: ${err.message || 'Unknown error'}`);
+  printErrorDetails(error);
+  process.exit(exitCodeFor(error));
+}
 
 // Helper to handle errors with log file info
 function handleError(error: unknown, context: string): never {
-  const err = error as { message?: string; response?: { status?: number; statusText?: string } };
+  const err = error as { message?: string };
   const logFile = path.join(process.cwd(), 'watts-cli.log');
   console.error(`\n${context}: ${err.message || 'Unknown error'}`);
   console.error(`\nDetailed error information has been logged to: ${logFile}`);
-  if (err.response) {
-    console.error(`HTTP Status: ${err.response.status} ${err.response.statusText || ''}`);
-  }
-  process.exit(1);
+  printErrorDetails(error);
+  process.exit(exitCodeFor(error));
 }
 
 
@@ -50,9 +121,7 @@ locationsCmd
         console.log('');
       });
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -65,9 +134,7 @@ locationsCmd
       const location = await api.setLocationAwayMode(locationId, away);
       console.log(`\nLocation "${location.name}" away mode set to: ${away ? 'ON' : 'OFF'}`);
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -95,9 +162,7 @@ devicesCmd
         });
       }
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -112,18 +177,29 @@ devicesCmd
       console.log(`\nDevice: ${device.name}`);
       console.log(`  Connected: ${device.isConnected ? 'Yes' : 'No'}`);
       console.log(`  Mode: ${data.Mode.Val}`);
+      console.log(`  Supported Modes: ${supportedModes(data).join(', ')}`);
+      console.log(`  Schedule: ${describeHold(data)}`);
       console.log(`  State: ${data.State.Op}`);
-      console.log(`  Current Temp: ${data.Sensors.Room.Val}°${data.TempUnits.Val}`);
+      console.log(`  Current Temp: ${formatReading(data.Sensors.Room, data.TempUnits.Val)}`);
       console.log(`  Heat Setpoint: ${data.Target.Heat}°${data.TempUnits.Val}`);
       console.log(`  Cool Setpoint: ${data.Target.Cool}°${data.TempUnits.Val}`);
       console.log(`  Fan: ${data.Fan.Val}`);
       if (data.Sensors.Floor) {
-        console.log(`  Floor Temp: ${data.Sensors.Floor.Val}°${data.TempUnits.Val}`);
+        console.log(`  Floor Temp: ${formatReading(data.Sensors.Floor, data.TempUnits.Val)}`);
+      }
+      if (data.Sensors.Outdoor) {
+        console.log(`  Outdoor Temp: ${formatReading(data.Sensors.Outdoor, data.TempUnits.Val)}`);
+      }
+
+      const faults = (['Room', 'Floor', 'Outdoor'] as const)
+        .map((name) => [name, sensorProblem(data.Sensors[name], data.TempUnits.Val)] as const)
+        .filter(([, problem]) => problem !== null);
+      if (faults.length > 0) {
+        console.log('  Sensor Faults:');
+        faults.forEach(([name, problem]) => console.log(`    ${name}: ${problem}`));
       }
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -145,12 +221,10 @@ devicesCmd
         console.log(`\nSet cool temperature to ${temperature}°${device.data.TempUnits.Val}`);
       } else {
         console.error('Device must be in Heat, Cool, or Auto mode to set temperature');
-        process.exit(1);
+        process.exit(EXIT_USAGE);
       }
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -164,9 +238,7 @@ devicesCmd
       await api.setDeviceHeatTemp(deviceId, temperature);
       console.log(`\nSet heat temperature to ${temperature}°${device.data.TempUnits.Val}`);
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -180,9 +252,7 @@ devicesCmd
       await api.setDeviceCoolTemp(deviceId, temperature);
       console.log(`\nSet cool temperature to ${temperature}°${device.data.TempUnits.Val}`);
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -199,9 +269,7 @@ devicesCmd
       console.log(`  Heat: ${heat}°${device.data.TempUnits.Val}`);
       console.log(`  Cool: ${cool}°${device.data.TempUnits.Val}`);
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -214,16 +282,61 @@ devicesCmd
       const validMode = mode.toLowerCase();
       if (!['off', 'heat', 'cool', 'auto'].includes(validMode)) {
         console.error('Mode must be one of: off, heat, cool, auto');
-        process.exit(1);
+        process.exit(EXIT_USAGE);
+      }
+
+      const modeValue = validMode.charAt(0).toUpperCase() + validMode.slice(1) as ThermostatMode;
+      const device = await api.getDevice(deviceId);
+      const modes = supportedModes(device.data);
+      if (!modes.includes(modeValue)) {
+        console.error(`${device.name} does not support ${modeValue} mode ` +
+          `(supported: ${modes.map(m => m.toLowerCase()).join(', ')})`);
+        process.exit(EXIT_USAGE);
       }
 
-      const modeValue = validMode.charAt(0).toUpperCase() + validMode.slice(1) as 'Off' | 'Heat' | 'Cool' | 'Auto';
       await api.setDeviceMode(deviceId, modeValue);
       console.log(`\nSet device mode to: ${modeValue}`);
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+// Hold control
+devicesCmd
+  .command('hold <device-id>')
+  .description('Hold the current setpoints instead of following the schedule (permanent unless --hours is given)')
+  .option('--hours <hours>', 'End the hold after this many hours')
+  .action(async (deviceId: string, options: { hours?: string }) => {
+    try {
+      let until: Date | undefined;
+      if (options.hours !== undefined) {
+        const hours = parseFloat(options.hours);
+        if (isNaN(hours) || hours <= 0) {
+          console.error('Hours must be a positive number');
+          process.exit(EXIT_USAGE);
+        }
+        until = new Date(Date.now() + hours * 3600 * 1000);
+      }
+
+      const device = await api.setDeviceHold(deviceId, until);
+      console.log(`\n"${device.name}": ${describeHold(device.data)}`);
+    } catch (error: unknown) {
+      exitWithError(error);
+    }
+  });
+
+devicesCmd
+  .command('resume <device-id>')
+  .description('Clear any hold so the weekly schedule applies again (a schedule that is off stays off)')
+  .action(async (deviceId: string) => {
+    try {
+      const device = await api.resumeDeviceSchedule(deviceId);
+      console.log(`\n"${device.name}": ${describeHold(device.data)}`);
+      if (device.data.SchedEnable?.Val !== 'On') {
+        console.log(`Turn the schedule on with "watts-cli schedule enable ${deviceId}" to follow it`);
+      }
+    } catch (error: unknown) {
+      exitWithError(error);
     }
   });
 
@@ -238,9 +351,7 @@ devicesCmd
       await api.setDeviceFloorMin(deviceId, temperature);
       console.log(`\nSet floor minimum temperature to ${temperature}°${device.data.TempUnits.Val}`);
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -259,9 +370,147 @@ devicesCmd
         console.log(`\nSet device away temperature to ${temperature}°${device.data.TempUnits.Val}`);
       }
     } catch (error: unknown) {
-      const err = error as { message?: string };
-      console.error(`Error: ${err.message || 'Unknown error'}`);
-      process.exit(1);
+      exitWithError(error);
+    }
+  });
+
+// Schedule commands
+const scheduleCmd = new Command('schedule')
+  .description('Manage device weekly schedules');
+
+// Validate a schedule read from a JSON file
+function parseSchedule(json: string): WeeklySchedule {
+  const parsed = JSON.parse(json) as Record<string, unknown>;
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Schedule file must contain a JSON object');
+  }
+  if (parsed.Grp !== null && parsed.Grp !== undefined && !Array.isArray(parsed.Grp)) {
+    throw new Error('Schedule "Grp" must be an array or null');
+  }
+  if (parsed.Event !== null && parsed.Event !== undefined && !Array.isArray(parsed.Event)) {
+    throw new Error('Schedule "Event" must be an array or null');
+  }
+
+  const schedule: WeeklySchedule = {
+    Grp: (parsed.Grp as number[] | undefined) ?? null,
+    Event: (parsed.Event as string[] | undefined) ?? null,
+  };
+  for (const key of SCHEDULE_GROUP_KEYS) {
+    const group = parsed[key];
+    if (group === undefined) {
+      continue;
+    }
+    if (!Array.isArray(group)) {
+      throw new Error(`Schedule "${key}" must be an array of events`);
+    }
+    for (const event of group) {
+      if (typeof event?.Time !== 'number' || typeof event?.Heat !== 'number' || typeof event?.Cool !== 'number') {
+        throw new Error(`Each event in "${key}" needs numeric Time, Heat and Cool`);
+      }
+    }
+    schedule[key] = group;
+  }
+  return schedule;
+}
+
+scheduleCmd
+  .command('show <device-id>')
+  .description('Show the weekly schedule as JSON')
+  .option('-o, --output <file>', 'Write the schedule to a JSON file instead of stdout')
+  .action(async (deviceId: string, options: { output?: string }) => {
+    try {
+      const schedule = await api.getDeviceSchedule(deviceId);
+      const json = JSON.stringify(schedule, null, 2);
+      if (options.output) {
+        await fs.writeFile(options.output, json + '\n', 'utf-8');
+        console.log(`\nSchedule written to ${options.output}`);
+      } else {
+        console.log(json);
+      }
+    } catch (error: unknown) {
+      exitWithError(error);
+    }
+  });
+
+scheduleCmd
+  .command('set <device-id> <file>')
+  .description('Replace the weekly schedule from a JSON file (as written by "schedule show")')
+  .action(async (deviceId: string, file: string) => {
+    try {
+      const json = await fs.readFile(file, 'utf-8');
+      let schedule: WeeklySchedule;
+      try {
+        schedule = parseSchedule(json);
+      } catch (error: unknown) {
+        const err = error as { message?: string };
+        console.error(`Invalid schedule file: ${err.message || 'Unknown error'}`);
+        process.exit(EXIT_USAGE);
+      }
+      const device = await api.setDeviceSchedule(deviceId, schedule);
+      console.log(`\nSchedule updated for "${device.name}"`);
+    } catch (error: unknown) {
+      exitWithError(error);
+    }
+  });
+
+scheduleCmd
+  .command('enable <device-id>')
+  .description('Enable the weekly schedule')
+  .action(async (deviceId: string) => {
+    try {
+      const device = await api.setDeviceScheduleEnabled(deviceId, true);
+      console.log(`\nSchedule enabled for "${device.name}"`);
+    } catch (error: unknown) {
+      exitWithError(error);
+    }
+  });
+
+scheduleCmd
+  .command('disable <device-id>')
+  .description('Disable the weekly schedule')
+  .action(async (deviceId: string) => {
+    try {
+      const device = await api.setDeviceScheduleEnabled(deviceId, false);
+      console.log(`\nSchedule disabled for "${device.name}"`);
+    } catch (error: unknown) {
+      exitWithError(error);
+    }
+  });
+
+// Energy usage
+program
+  .command('energy <device-id>')
+  .description('Export heating/cooling usage history')
+  .option('-f, --format <format>', 'Output format: csv or json', 'csv')
+  .option('-p, --period <period>', 'CSV period: daily or monthly', 'daily')
+  .option('-s, --storage <dir>', 'Homebridge storage directory the plugin saves energy history under', path.join(os.homedir(), '.homebridge'))
+  .action(async (deviceId: string, options: { format: string; period: string; storage: string }) => {
+    try {
+      const format = options.format.toLowerCase();
+      const period = options.period.toLowerCase();
+      if (!['csv', 'json'].includes(format)) {
+        console.error('Format must be one of: csv, json');
+        process.exit(EXIT_USAGE);
+      }
+      if (!['daily', 'monthly'].includes(period)) {
+        console.error('Period must be one of: daily, monthly');
+        process.exit(EXIT_USAGE);
+      }
+
+      // Export the plugin's saved history with the device's current series merged in; the file is left as it is
+      const device = await api.getDevice(deviceId);
+      const store = new EnergyHistoryStore(path.join(options.storage, PLUGIN_NAME));
+      const history = await store.preview(device);
+
+      if (format === 'json') {
+        console.log(JSON.stringify(history, null, 2));
+      } else if (period === 'monthly') {
+        console.log(energyToCsv(history.monthly, 'month'));
+      } else {
+        console.log(energyToCsv(history.daily, 'date'));
+      }
+    } catch (error: unknown) {
+      exitWithError(error);
     }
   });
 
@@ -316,7 +565,8 @@ program
   .description('CLI tool for controlling Tekmar WiFi thermostats via Watts Home API')
   .version('0.1.0')
   .addCommand(locationsCmd)
-  .addCommand(devicesCmd);
+  .addCommand(devicesCmd)
+  .addCommand(scheduleCmd);
 
 // Parse arguments and run
 program.parse(process.argv);
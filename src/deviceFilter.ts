@@ -0,0 +1,100 @@
+import type { DeviceSummary, Location } from './types/api.js';
+
+/**
+ * Rules that match devices, from the `include` / `exclude` config
+ * - deviceIds: exact device IDs
+ * - names: device name patterns, case-insensitive, `*` and `?` wildcards
+ * - locations: location IDs or names (case-insensitive)
+ */
+export interface DeviceMatcher {
+  deviceIds?: string[];
+  names?: string[];
+  locations?: string[];
+}
+
+/**
+ * A short name for a location, from the `locationAliases` config
+ */
+export interface LocationAlias {
+  location: string; // Location ID or name
+  alias: string;
+}
+
+/**
+ * Per-device settings from the `deviceOverrides` config
+ */
+export interface DeviceOverride {
+  deviceId: string;
+  name?: string; // Display name in HomeKit
+  pollingInterval?: number; // Seconds
+  minSetpoint?: number; // °C
+  maxSetpoint?: number; // °C
+  floorSensor?: boolean;
+  floorControls?: boolean;
+  scheduleSwitch?: boolean;
+  followScheduleSwitch?: boolean;
+  fan?: boolean;
+}
+
+/**
+ * Convert a wildcard pattern to an anchored, case-insensitive RegExp
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+/**
+ * Whether a matcher has any rules at all
+ */
+function hasRules(matcher: DeviceMatcher | undefined): matcher is DeviceMatcher {
+  return !!matcher && [matcher.deviceIds, matcher.names, matcher.locations].some(rules => rules && rules.length > 0);
+}
+
+/**
+ * Whether a location ID or name refers to a location (names are case-insensitive)
+ */
+export function matchesLocation(selector: string, location: Pick<Location, 'locationId' | 'name'>): boolean {
+  return selector === location.locationId || selector.toLowerCase() === location.name.toLowerCase();
+}
+
+/**
+ * Whether a device matches any rule of a matcher
+ */
+export function matchesDevice(matcher: DeviceMatcher, device: DeviceSummary, locationId: string, locationName: string): boolean {
+  if (matcher.deviceIds?.includes(device.deviceId)) {
+    return true;
+  }
+  if (matcher.names?.some(pattern => patternToRegExp(pattern).test(device.name))) {
+    return true;
+  }
+  return !!matcher.locations?.some(selector => matchesLocation(selector, { locationId, name: locationName }));
+}
+
+/**
+ * Whether a device should be exposed: it must match `include` (when any include rules are set)
+ * and must not match `exclude`
+ */
+export function isDeviceSelected(
+  device: DeviceSummary,
+  locationId: string,
+  locationName: string,
+  include: DeviceMatcher | undefined,
+  exclude: DeviceMatcher | undefined,
+): boolean {
+  if (hasRules(include) && !matchesDevice(include, device, locationId, locationName)) {
+    return false;
+  }
+  return !(hasRules(exclude) && matchesDevice(exclude, device, locationId, locationName));
+}
+
+/**
+ * Whether a location should be used: it must be listed in `selectors` (when any are set),
+ * and shared locations (isShared, or userType 4 = shared user) are skipped when `skipShared` is on
+ */
+export function isLocationSelected(location: Location, selectors: string[], skipShared: boolean): boolean {
+  if (selectors.length > 0 && !selectors.some(selector => matchesLocation(selector, location))) {
+    return false;
+  }
+  return !(skipShared && (location.isShared || location.userType === 4));
+}
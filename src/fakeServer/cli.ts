@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+
+/**
+ * Run the fake Watts Home server from the command line
+ * Prints the environment variables that point the CLI at it and the matching plugin config
+ */
+
+import { Command } from 'commander';
+import { FakeWattsServer } from './fakeWattsServer.js';
+import { defaultFixture, loadFixture } from './fixtures.js';
+
+const program = new Command();
+
+program
+  .name('watts-fake-server')
+  .description('Local stand-in for the Watts Home login and API services')
+  .option('-p, --port <port>', 'Port to listen on', '8787')
+  .option('-f, --fixture <file>', 'JSON fixture account (default: built-in sample home)')
+  .option('--token-ttl <seconds>', 'Access token lifetime', '3600')
+  .action(async (options: { port: string; fixture?: string; tokenTtl: string }) => {
+    try {
+      const fixture = options.fixture ? await loadFixture(options.fixture) : defaultFixture();
+      const server = new FakeWattsServer(fixture, {
+        port: parseInt(options.port, 10),
+        accessTokenTtl: parseInt(options.tokenTtl, 10),
+      });
+      const url = await server.start();
+
+      console.log(`Fake Watts Home server listening on ${url}`);
+      console.log(`\nLogin: ${fixture.email} / ${fixture.password}`);
+      console.log('\nCLI:');
+      console.log(`  export WATTS_LOGIN_BASE=${server.loginBase}`);
+      console.log(`  export WATTS_API_BASE=${server.apiBase}`);
+      console.log('\nHomebridge config:');
+      console.log(`  "loginBaseUrl": "${server.loginBase}",`);
+      console.log(`  "apiBaseUrl": "${server.apiBase}"`);
+
+      const shutdown = async () => {
+        await server.stop();
+        process.exit(0);
+      };
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      console.error(`Error: ${err.message || 'Unknown error'}`);
+      process.exit(1);
+    }
+  });
+
+program.parse(process.argv);
@@ -0,0 +1,478 @@
+/**
+ * Fake Watts Home server
+ * A local stand-in for login.watts.io (Azure AD B2C login pages and token endpoint) and
+ * home.watts.com/api, driven by a fixture account, so WattsAuth, WattsApiClient, the CLI
+ * and the plugin can be run end-to-end without a real account.
+ * Login is served from the root and the API from /api, e.g.:
+ *   new WattsAuth(storagePath, undefined, server.loginBase)
+ *   new WattsApiClient(auth, server.apiBase)
+ */
+
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { ApiResponse, Device, DeviceSettings, LocationStateUpdate, TokenResponse } from '../types/api.js';
+import { HOLD_NONE, HOLD_PERMANENT, HOLD_TIMED } from '../lib/hold.js';
+import { deviceSummary, type FixtureAccount, type FixtureLocation } from './fixtures.js';
+
+const DEFAULT_ACCESS_TOKEN_TTL = 3600; // Seconds
+const DEFAULT_REFRESH_TOKEN_TTL = 14 * 24 * 3600;
+
+export interface FakeWattsServerOptions {
+  port?: number; // 0 (default) picks a free port
+  accessTokenTtl?: number; // Seconds
+  refreshTokenTtl?: number; // Seconds
+}
+
+/**
+ * A canned failure returned instead of the normal response
+ */
+export interface InjectedFailure {
+  path?: string; // Only requests whose path contains this (default: any request)
+  status: number;
+  body?: unknown; // Default: an ApiResponse with errorNumber = status
+  headers?: Record<string, string>;
+  count?: number; // Number of requests to fail (default 1)
+}
+
+interface PendingLogin {
+  csrf: string;
+  state: string;
+  redirectUri: string;
+  codeChallenge: string;
+  authenticated: boolean;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly body?: unknown,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Read a request body as a string
+ */
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Wrap a body in the API's response envelope
+ */
+function envelope<T>(body: T, errorNumber = 0, errorMessage: string | null = null): ApiResponse<T> {
+  return { errorNumber, errorMessage, body };
+}
+
+/**
+ * What a thermostat would be doing for its mode, setpoints and room temperature
+ */
+function operatingState(device: Device): Device['data']['State']['Op'] {
+  const { Mode, Target, Sensors } = device.data;
+  const room = Sensors.Room.Val;
+  if ((Mode.Val === 'Heat' || Mode.Val === 'Auto') && room < Target.Heat) {
+    return 'Heating';
+  }
+  if ((Mode.Val === 'Cool' || Mode.Val === 'Auto') && room > Target.Cool) {
+    return 'Cooling';
+  }
+  return 'Off';
+}
+
+export class FakeWattsServer {
+  private readonly server: http.Server;
+  private readonly pendingLogins: Map<string, PendingLogin> = new Map(); // By transId
+  private readonly authCodes: Map<string, string> = new Map(); // Code -> PKCE challenge
+  private readonly accessTokens: Map<string, number> = new Map(); // Token -> expiry (epoch seconds)
+  private readonly refreshTokens: Map<string, number> = new Map();
+  private failures: InjectedFailure[] = [];
+  private baseUrl = '';
+
+  // Counters for assertions, e.g. that concurrent requests shared one refresh
+  readonly stats = { logins: 0, refreshes: 0, apiRequests: 0, patches: 0 };
+
+  constructor(
+    readonly fixture: FixtureAccount,
+    private readonly options: FakeWattsServerOptions = {},
+  ) {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        const err = error as { message?: string };
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(envelope(null, 500, err.message || 'Unknown error')));
+      });
+    });
+  }
+
+  /**
+   * Start listening; resolves with the base URL
+   */
+  async start(): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, '127.0.0.1', () => resolve());
+    });
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop listening
+   */
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Base URL to pass to WattsAuth
+   */
+  get loginBase(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Base URL to pass to WattsApiClient
+   */
+  get apiBase(): string {
+    return `${this.baseUrl}/api`;
+  }
+
+  /**
+   * Fail upcoming requests, e.g. `{ path: '/Device/', status: 429, headers: { 'Retry-After': '5' } }`
+   */
+  injectFailure(failure: InjectedFailure) {
+    this.failures.push({ count: 1, ...failure });
+  }
+
+  /**
+   * Invalidate every issued access token, so the next API request gets a 401
+   */
+  revokeAccessTokens() {
+    this.accessTokens.clear();
+  }
+
+  /**
+   * Invalidate every issued refresh token, so the next refresh gets invalid_grant
+   */
+  revokeRefreshTokens() {
+    this.refreshTokens.clear();
+  }
+
+  /**
+   * Find a fixture device by ID
+   */
+  getDevice(deviceId: string): Device | undefined {
+    for (const { devices } of this.fixture.locations) {
+      const device = devices.find(candidate => candidate.deviceId === deviceId);
+      if (device) {
+        return device;
+      }
+    }
+    return undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? '/', this.baseUrl || 'http://127.0.0.1');
+    const method = req.method ?? 'GET';
+    const body = method === 'GET' ? '' : await readBody(req);
+
+    const failure = this.failures.find(candidate => !candidate.path || url.pathname.includes(candidate.path));
+    if (failure) {
+      failure.count = (failure.count ?? 1) - 1;
+      if (failure.count <= 0) {
+        this.failures = this.failures.filter(candidate => candidate !== failure);
+      }
+      res.writeHead(failure.status, { 'Content-Type': 'application/json', ...failure.headers });
+      res.end(JSON.stringify(failure.body ?? envelope(null, failure.status, `Injected failure (HTTP ${failure.status})`)));
+      return;
+    }
+
+    try {
+      if (url.pathname.startsWith('/api/')) {
+        this.stats.apiRequests++;
+        this.authorize(req);
+        const result = this.handleApi(method, url.pathname.slice('/api'.length), body);
+        res.writeHead(200, { 'Content-Type': 'application/json', 'x-request-id': crypto.randomUUID() });
+        res.end(JSON.stringify(result));
+        return;
+      }
+      this.handleLogin(method, url, body, req, res);
+    } catch (error: unknown) {
+      if (!(error instanceof HttpError) || res.headersSent) {
+        throw error;
+      }
+      res.writeHead(error.status, { 'Content-Type': 'application/json', 'x-request-id': crypto.randomUUID() });
+      res.end(JSON.stringify(error.body ?? envelope(null, error.status, error.message)));
+    }
+  }
+
+  /**
+   * Azure AD B2C login flow: authorize page, SelfAsserted credential check, confirmed redirect, token endpoint
+   */
+  private handleLogin(method: string, url: URL, body: string, req: http.IncomingMessage, res: http.ServerResponse) {
+    const path = url.pathname;
+
+    if (method === 'GET' && path.endsWith('/oauth2/v2.0/authorize')) {
+      const transId = `StateProperties=${crypto.randomBytes(16).toString('base64url')}`;
+      const login: PendingLogin = {
+        csrf: crypto.randomBytes(16).toString('base64url'),
+        state: url.searchParams.get('state') ?? '',
+        redirectUri: url.searchParams.get('redirect_uri') ?? '',
+        codeChallenge: url.searchParams.get('code_challenge') ?? '',
+        authenticated: false,
+      };
+      this.pendingLogins.set(transId, login);
+      res.writeHead(200, {
+        'Content-Type': 'text/html',
+        'Set-Cookie': [`x-ms-cpim-csrf=${login.csrf}; path=/`, `x-ms-cpim-trans=${transId}; path=/`],
+      });
+      res.end(`<html><script>var SETTINGS = {"csrf":"${login.csrf}","transId":"${transId}"};</script></html>`);
+      return;
+    }
+
+    if (method === 'POST' && path.endsWith('/SelfAsserted')) {
+      const login = this.pendingLogins.get(url.searchParams.get('tx') ?? '');
+      if (!login || req.headers['x-csrf-token'] !== login.csrf) {
+        throw new HttpError(403, 'Invalid CSRF token', { status: '403', message: 'Invalid CSRF token' });
+      }
+      const form = new URLSearchParams(body);
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'x-ms-cpim-cache=1; path=/' });
+      if (form.get('signInName') !== this.fixture.email || form.get('password') !== this.fixture.password) {
+        res.end(JSON.stringify({ status: '400', message: 'Your password is incorrect.' }));
+        return;
+      }
+      login.authenticated = true;
+      res.end(JSON.stringify({ status: '200' }));
+      return;
+    }
+
+    if (method === 'GET' && path.endsWith('/api/CombinedSigninAndSignup/confirmed')) {
+      const transId = url.searchParams.get('tx') ?? '';
+      const login = this.pendingLogins.get(transId);
+      if (!login?.authenticated || url.searchParams.get('csrf_token') !== login.csrf) {
+        throw new HttpError(400, 'Login not completed');
+      }
+      this.pendingLogins.delete(transId);
+      const code = crypto.randomBytes(24).toString('base64url');
+      this.authCodes.set(code, login.codeChallenge);
+      res.writeHead(302, { Location: `${login.redirectUri}?state=${encodeURIComponent(login.state)}&code=${code}` });
+      res.end();
+      return;
+    }
+
+    if (method === 'POST' && path.endsWith('/oauth2/v2.0/token')) {
+      // Exchange first: a rejected grant is answered by the HttpError handler
+      const tokens = this.exchangeGrant(new URLSearchParams(body));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(tokens));
+      return;
+    }
+
+    throw new HttpError(404, `Not found: ${method} ${path}`);
+  }
+
+  /**
+   * Token endpoint: authorization_code (with PKCE) and refresh_token grants
+   */
+  private exchangeGrant(form: URLSearchParams): TokenResponse {
+    const invalidGrant = (description: string) =>
+      new HttpError(400, description, { error: 'invalid_grant', error_description: description });
+
+    if (form.get('grant_type') === 'authorization_code') {
+      const code = form.get('code') ?? '';
+      const challenge = this.authCodes.get(code);
+      this.authCodes.delete(code);
+      const verifier = form.get('code_verifier') ?? '';
+      if (!challenge || crypto.createHash('sha256').update(verifier).digest('base64url') !== challenge) {
+        throw invalidGrant('AADB2C90090: The provided authorization code is invalid.');
+      }
+      this.stats.logins++;
+      return this.issueTokens();
+    }
+
+    if (form.get('grant_type') === 'refresh_token') {
+      const refreshToken = form.get('refresh_token') ?? '';
+      const expiresAt = this.refreshTokens.get(refreshToken);
+      if (!expiresAt || expiresAt <= Math.floor(Date.now() / 1000)) {
+        throw invalidGrant('AADB2C90080: The provided grant has expired.');
+      }
+      this.refreshTokens.delete(refreshToken); // Refresh tokens are single use
+      this.stats.refreshes++;
+      return this.issueTokens();
+    }
+
+    throw new HttpError(400, 'Unsupported grant type', { error: 'unsupported_grant_type' });
+  }
+
+  private issueTokens(): TokenResponse {
+    const now = Math.floor(Date.now() / 1000);
+    const accessTtl = this.options.accessTokenTtl ?? DEFAULT_ACCESS_TOKEN_TTL;
+    const refreshTtl = this.options.refreshTokenTtl ?? DEFAULT_REFRESH_TOKEN_TTL;
+    const accessToken = crypto.randomBytes(32).toString('base64url');
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    this.accessTokens.set(accessToken, now + accessTtl);
+    this.refreshTokens.set(refreshToken, now + refreshTtl);
+    return {
+      access_token: accessToken,
+      id_token: 'fake-id-token',
+      token_type: 'Bearer',
+      not_before: now,
+      expires_in: accessTtl,
+      expires_on: now + accessTtl,
+      resource: 'fake-resource',
+      scope: 'offline_access openid profile',
+      refresh_token: refreshToken,
+      refresh_token_expires_in: refreshTtl,
+      client_info: 'fake-client-info',
+    };
+  }
+
+  /**
+   * Reject API requests without a current access token
+   */
+  private authorize(req: http.IncomingMessage) {
+    const token = (req.headers.authorization ?? '').replace(/^Bearer /, '');
+    const expiresAt = this.accessTokens.get(token);
+    if (!expiresAt || expiresAt <= Math.floor(Date.now() / 1000)) {
+      throw new HttpError(401, 'Unauthorized');
+    }
+  }
+
+  /**
+   * API routes: /User, /Location, /Location/{id}/Devices, /Location/{id}/State, /Device/{id}
+   */
+  private handleApi(method: string, path: string, body: string): ApiResponse<unknown> {
+    let match: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/User') {
+      return envelope(this.fixture.user);
+    }
+
+    if (method === 'GET' && path === '/Location') {
+      return envelope(this.fixture.locations.map(entry => entry.location));
+    }
+
+    if ((match = path.match(/^\/Location\/([^/]+)\/Devices$/)) && method === 'GET') {
+      return envelope(this.findLocation(match[1]).devices.map(deviceSummary));
+    }
+
+    if ((match = path.match(/^\/Location\/([^/]+)\/State$/)) && method === 'PATCH') {
+      const entry = this.findLocation(match[1]);
+      const update = JSON.parse(body) as LocationStateUpdate;
+      entry.location.awayState = update.awayState;
+      entry.devices.forEach(device => {
+        device.location.awayState = update.awayState;
+      });
+      return envelope(entry.location);
+    }
+
+    if ((match = path.match(/^\/Device\/([^/]+)$/))) {
+      const device = this.getDevice(match[1]);
+      if (!device) {
+        throw new HttpError(404, `Device ${match[1]} not found`);
+      }
+      if (method === 'PATCH') {
+        this.stats.patches++;
+        const { Settings } = JSON.parse(body) as { Settings: DeviceSettings };
+        const error = this.applySettings(device, Settings ?? {});
+        if (error) {
+          return envelope(null, 1, error);
+        }
+      }
+      if (method === 'GET' || method === 'PATCH') {
+        device.data.State.Op = operatingState(device);
+        device.data.DateTime = new Date().toISOString();
+        return envelope(device);
+      }
+    }
+
+    throw new HttpError(404, `Not found: ${method} ${path}`);
+  }
+
+  private findLocation(locationId: string): FixtureLocation {
+    const entry = this.fixture.locations.find(candidate => candidate.location.locationId === locationId);
+    if (!entry) {
+      throw new HttpError(404, `Location ${locationId} not found`);
+    }
+    return entry;
+  }
+
+  /**
+   * Apply a settings PATCH like the real API; returns an error message when it is rejected
+   */
+  private applySettings(device: Device, settings: DeviceSettings): string | null {
+    const { data } = device;
+    if (!device.isConnected) {
+      return 'Device is offline';
+    }
+    if (settings.Mode !== undefined && !data.Mode.Enum.includes(settings.Mode)) {
+      throw new HttpError(400, `Invalid mode: ${settings.Mode}`);
+    }
+    if (settings.Heat !== undefined &&
+      (settings.Heat < data.Schedule.HeatMin || settings.Heat > data.Schedule.HeatMax)) {
+      throw new HttpError(400, `Heat setpoint must be between ${data.Schedule.HeatMin} and ${data.Schedule.HeatMax}`);
+    }
+    if (settings.Cool !== undefined &&
+      (settings.Cool < data.Schedule.CoolMin || settings.Cool > data.Schedule.CoolMax)) {
+      throw new HttpError(400, `Cool setpoint must be between ${data.Schedule.CoolMin} and ${data.Schedule.CoolMax}`);
+    }
+
+    // In Auto the heat and cool setpoints must stay at least TempInterlock apart
+    const heat = settings.Heat ?? data.Target.Heat;
+    const cool = settings.Cool ?? data.Target.Cool;
+    if ((settings.Mode ?? data.Mode.Val) === 'Auto' && data.TempInterlock > 0 && cool - heat < data.TempInterlock) {
+      throw new HttpError(400, `Cool setpoint must be at least ${data.TempInterlock} above the heat setpoint`);
+    }
+
+    if (settings.Hold !== undefined && ![HOLD_NONE, HOLD_PERMANENT, HOLD_TIMED].includes(settings.Hold)) {
+      throw new HttpError(400, `Invalid hold: ${settings.Hold}`);
+    }
+
+    if (settings.Mode !== undefined) {
+      data.Mode.Val = settings.Mode;
+    }
+    if (settings.Heat !== undefined) {
+      data.Target.Heat = settings.Heat;
+    }
+    if (settings.Cool !== undefined) {
+      data.Target.Cool = settings.Cool;
+    }
+    if (settings.Fan !== undefined) {
+      data.Fan.Val = settings.Fan;
+    }
+    if (settings.SchedEnable !== undefined) {
+      data.SchedEnable.Val = settings.SchedEnable;
+    }
+    if (settings.Hold !== undefined) {
+      data.Target.Hold = settings.Hold;
+      data.Target.HoldUntil = settings.Hold === HOLD_TIMED ? settings.HoldUntil ?? null : null;
+    } else if ((settings.Heat !== undefined || settings.Cool !== undefined) &&
+      data.SchedEnable.Val === 'On' && !data.Target.Hold) {
+      // Like the thermostat, a setpoint change overrides the schedule until its next event
+      data.Target.Hold = HOLD_TIMED;
+      data.Target.HoldUntil = null;
+    }
+    if (settings.Schedule) {
+      const { Floor, ...schedule } = settings.Schedule;
+      Object.assign(data.Schedule, schedule);
+      if (Floor) {
+        data.Schedule.Floor = { ...data.Schedule.Floor, ...Floor };
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Fixture homes for the fake Watts Home server
+ * A fixture is a complete account: login credentials, the user profile, and its locations
+ * with their devices. Fixtures can also be loaded from a JSON file of the same shape.
+ */
+
+import * as fs from 'fs/promises';
+import type { Device, DeviceSummary, Location, User } from '../types/api.js';
+
+export interface FixtureLocation {
+  location: Location;
+  devices: Device[];
+}
+
+export interface FixtureAccount {
+  email: string;
+  password: string;
+  user: User;
+  locations: FixtureLocation[];
+}
+
+interface FixtureDeviceOptions {
+  deviceId: string;
+  name: string;
+  units?: 'F' | 'C';
+  room?: number;
+  floor?: number;
+  outdoor?: number;
+  mode?: Device['data']['Mode']['Val'];
+  heat?: number;
+  cool?: number;
+  fan?: boolean;
+  heatOnly?: boolean; // Hydronic unit with no cooling
+  schedule?: boolean; // Weekly schedule turned on
+  isConnected?: boolean;
+}
+
+/**
+ * Build a location with the fields the API returns
+ */
+export function fixtureLocation(locationId: string, name: string, overrides: Partial<Location> = {}): Location {
+  return {
+    locationId,
+    ownerId: 'fake-owner',
+    name,
+    address: {
+      address: '123 Main St',
+      address2: '',
+      city: 'Springfield',
+      state_province: 'CA',
+      zipcode: '94000',
+      country: 'US',
+    },
+    awayState: 0,
+    isDefault: false,
+    isShared: false,
+    userType: 1,
+    supportsAway: true,
+    usersCount: 1,
+    devicesCount: 0,
+    hasDeviceInDemandResponseEvent: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Build a thermostat with the data a Tekmar 562 reports, in Fahrenheit or Celsius
+ */
+export function fixtureDevice(location: Location, options: FixtureDeviceOptions): Device {
+  const units = options.units ?? 'F';
+  const celsius = units === 'C';
+  // Ranges and steps the device reports for its units
+  const range = celsius
+    ? { heatMin: 4.5, heatMax: 35, coolMin: 7, coolMax: 37.5, floorMin: 4.5, floorMax: 29.5, steps: 0.5, interlock: 1 }
+    : { heatMin: 40, heatMax: 95, coolMin: 45, coolMax: 100, floorMin: 40, floorMax: 85, steps: 1, interlock: 2 };
+  const sensor = (Val: number) => ({ Val, Status: 'Okay' });
+
+  return {
+    deviceId: options.deviceId,
+    name: options.name,
+    modelId: 7,
+    modelNumber: '562',
+    deviceType: 'Thermostat',
+    deviceTypeId: 2,
+    location: {
+      locationId: location.locationId,
+      name: location.name,
+      address: location.address,
+      awayState: location.awayState,
+      userType: location.userType,
+    },
+    imageUrl: null,
+    isShared: location.isShared,
+    isConnected: options.isConnected ?? true,
+    requestingUser: 'fake-user',
+    data: {
+      Sensors: {
+        Room: sensor(options.room ?? (celsius ? 21 : 70)),
+        ...(options.floor !== undefined ? { Floor: sensor(options.floor) } : {}),
+        ...(options.outdoor !== undefined ? { Outdoor: sensor(options.outdoor) } : {}),
+      },
+      State: { Op: 'Off', Sub: 'None' },
+      Mode: {
+        Active: 1,
+        Val: options.mode ?? 'Heat',
+        Enum: options.heatOnly ? ['Off', 'Heat'] : ['Off', 'Heat', 'Cool', 'Auto'],
+      },
+      Target: {
+        Active: 1,
+        Sensor: 'Room',
+        Hold: 0,
+        HoldUntil: null,
+        Heat: options.heat ?? (celsius ? 20 : 68),
+        Cool: options.cool ?? (celsius ? 25 : 76),
+        Min: range.heatMin,
+        Max: range.coolMax,
+        Steps: range.steps,
+      },
+      TempInterlock: range.interlock,
+      Fan: { Active: options.fan ? 1 : 0, Val: 'Auto', Enum: ['Auto', 'On'], Relay: options.fan ? 1 : 0 },
+      TempUnits: { Active: 1, Val: units, Enum: ['F', 'C'] },
+      Units: celsius ? 'Metric' : 'Imperial',
+      SchedEnable: { Active: 1, Val: options.schedule ? 'On' : 'Off', Enum: ['Off', 'On'] },
+      Schedule: {
+        SchedActive: 0,
+        HeatActive: 1,
+        CoolActive: options.heatOnly ? 0 : 1,
+        FloorActive: options.floor !== undefined ? 1 : 0,
+        Grp: null,
+        Event: null,
+        Floor: { W: celsius ? 22 : 71, A: 0 },
+        HeatMin: range.heatMin,
+        HeatMax: range.heatMax,
+        CoolMin: range.coolMin,
+        CoolMax: range.coolMax,
+        FloorMin: range.floorMin,
+        FloorMax: range.floorMax,
+        TempSteps: range.steps,
+        TimeSteps: 10,
+      },
+      Energy: {
+        Heat: { Daily: [1.5, 0, 0, 0, 0, 0, 1.1], Monthly: [23.6, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 12.9] },
+        Cool: { Daily: [0, 0, 0, 0, 0, 0, 0], Monthly: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+      },
+      DateTime: new Date().toISOString(),
+      TZOffset: 0,
+    },
+  };
+}
+
+/**
+ * The device list entry for a device (GET /Location/{id}/Devices)
+ */
+export function deviceSummary(device: Device): DeviceSummary {
+  return {
+    deviceId: device.deviceId,
+    name: device.name,
+    modelId: device.modelId,
+    modelNumber: device.modelNumber,
+    deviceType: device.deviceType,
+    deviceTypeId: device.deviceTypeId,
+    location: device.location,
+    imageUrl: device.imageUrl,
+    isShared: device.isShared,
+  };
+}
+
+/**
+ * Default fixture: one Fahrenheit home with three zones (one heat-only with a floor sensor, one offline)
+ * and a shared Celsius cabin
+ */
+export function defaultFixture(): FixtureAccount {
+  const home = fixtureLocation('loc-home', 'Home', { isDefault: true });
+  const cabin = fixtureLocation('loc-cabin', 'Lake Cabin', { isShared: true, userType: 4, ownerId: 'fake-friend' });
+
+  const homeDevices = [
+    fixtureDevice(home, { deviceId: 'dev-living', name: 'Living Room', room: 68, outdoor: 41, fan: true, schedule: true }),
+    fixtureDevice(home, { deviceId: 'dev-bath', name: 'Bathroom', room: 71, floor: 76, heat: 72, heatOnly: true }),
+    fixtureDevice(home, { deviceId: 'dev-basement', name: 'Basement', room: 62, mode: 'Off', isConnected: false }),
+  ];
+  const cabinDevices = [
+    fixtureDevice(cabin, { deviceId: 'dev-cabin', name: 'Cabin', units: 'C', room: 12.5, mode: 'Heat', heat: 10 }),
+  ];
+  home.devicesCount = homeDevices.length;
+  cabin.devicesCount = cabinDevices.length;
+
+  return {
+    email: 'test@example.com',
+    password: 'password',
+    user: {
+      userId: 'fake-user',
+      emailAddress: 'test@example.com',
+      defaultLocationId: home.locationId,
+      languagePreference: 'en',
+      userTypeId: 1,
+      measurementScale: 'I',
+      mobilePhoneNumber: null,
+      firstName: 'Test',
+      lastName: 'User',
+      smsNotificationEnabled: false,
+      emailNotificationEnabled: false,
+      pushNotificationEnabled: false,
+      defaultLocationDevices: homeDevices.map(device => device.deviceId),
+      voiceControlPlatform: 'None',
+    },
+    locations: [
+      { location: home, devices: homeDevices },
+      { location: cabin, devices: cabinDevices },
+    ],
+  };
+}
+
+/**
+ * Load a fixture account from a JSON file
+ */
+export async function loadFixture(file: string): Promise<FixtureAccount> {
+  const fixture = JSON.parse(await fs.readFile(file, 'utf-8')) as FixtureAccount;
+  if (!fixture.email || !fixture.password || !Array.isArray(fixture.locations)) {
+    throw new Error(`${file} is not a fixture account (needs email, password and locations)`);
+  }
+  return fixture;
+}
@@ -0,0 +1,194 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { TekmarHomebridgePlatform } from './platform.js';
+import type { Device } from './types/api.js';
+import { isValidReading } from './lib/sensors.js';
+import { alignToStep, setpointStep } from './lib/setpoints.js';
+
+/**
+ * Which Schedule.Floor setpoint a service controls
+ * - W: floor minimum temperature (always set)
+ * - A: away temperature (0 = not set)
+ */
+export type FloorSetpoint = 'W' | 'A';
+
+/**
+ * Floor Setpoint Service
+ * Exposes one of the Schedule.Floor setpoints as a secondary, heat-only Thermostat
+ * service linked to the main thermostat, so it can be adjusted from the Home app.
+ * The away temperature additionally uses Off to mean "not set".
+ */
+export class FloorSetpointService {
+  private service: Service;
+  private data: Device['data'] | null = null;
+
+  constructor(
+    private readonly platform: TekmarHomebridgePlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly deviceId: string,
+    private readonly setpoint: FloorSetpoint,
+    private readonly onDeviceUpdated: (device: Device) => void,
+    name: string,
+  ) {
+    const subtype = FloorSetpointService.subtype(setpoint);
+    this.service = this.accessory.getServiceById(this.platform.Service.Thermostat, subtype) ||
+      this.accessory.addService(this.platform.Service.Thermostat, name, subtype);
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, name);
+
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentTemperature).setProps({
+      minValue: -50,
+      maxValue: 100,
+    });
+
+    // Floor setpoints only heat; the away temperature can also be switched off (unset)
+    const { OFF, HEAT } = this.platform.Characteristic.TargetHeatingCoolingState;
+    const validValues = setpoint === 'A' ? [OFF, HEAT] : [HEAT];
+    const targetState = this.service.getCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState);
+    // Move off the default (OFF) first, or HAP warns that the current value isn't a valid value
+    if (!validValues.includes(targetState.value as number)) {
+      targetState.updateValue(HEAT);
+    }
+    targetState
+      .setProps({ validValues })
+      .onSet(this.setTargetHeatingCoolingState.bind(this));
+
+    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
+      .onSet(this.setTargetTemperature.bind(this));
+  }
+
+  /**
+   * Service subtype for a floor setpoint
+   */
+  static subtype(setpoint: FloorSetpoint): string {
+    return setpoint === 'W' ? 'floor-min' : 'floor-away';
+  }
+
+  /**
+   * The underlying HomeKit service
+   */
+  getService(): Service {
+    return this.service;
+  }
+
+  /**
+   * Refresh characteristics from device data
+   */
+  update(data: Device['data']) {
+    this.data = data;
+    const schedule = data.Schedule;
+    const units = data.TempUnits?.Val || 'C';
+
+    // Range comes from the device's reported floor limits, on the grid of the device's step
+    if (typeof schedule.FloorMin === 'number' && typeof schedule.FloorMax === 'number') {
+      const minStep = setpointStep(units, schedule.TempSteps || (units === 'F' ? 1 : 0.5));
+      const { minValue, maxValue } = alignToStep(this.toCelsius(schedule.FloorMin, units), this.toCelsius(schedule.FloorMax, units), minStep);
+      const target = this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature);
+      if (target.props.minValue !== minValue || target.props.maxValue !== maxValue || target.props.minStep !== minStep) {
+        target.setProps({ minValue, maxValue, minStep });
+      }
+    }
+
+    const value = schedule.Floor?.[this.setpoint];
+    const isSet = typeof value === 'number' && (this.setpoint === 'W' || value !== 0);
+    const { OFF, HEAT } = this.platform.Characteristic.TargetHeatingCoolingState;
+
+    if (isSet) {
+      this.service.updateCharacteristic(this.platform.Characteristic.TargetTemperature, this.clampToProps(this.toCelsius(value, units)));
+    }
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetHeatingCoolingState, isSet ? HEAT : OFF);
+
+    const heating = isSet && this.setpoint === 'W' && data.State?.Op === 'Heating';
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.CurrentHeatingCoolingState,
+      heating ? this.platform.Characteristic.CurrentHeatingCoolingState.HEAT : this.platform.Characteristic.CurrentHeatingCoolingState.OFF,
+    );
+
+    // Show the slab temperature when available, otherwise the room temperature; skip faulty probes
+    const sensor = [data.Sensors?.Floor, data.Sensors?.Room].find(reading => isValidReading(reading, units));
+    if (sensor) {
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentTemperature, this.toCelsius(sensor.Val, units));
+    }
+
+    // HomeKit: 0 = Celsius, 1 = Fahrenheit
+    this.service.updateCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits, units === 'C' ? 0 : 1);
+  }
+
+  /**
+   * Handle "SET" requests for Target Heating Cooling State
+   */
+  private async setTargetHeatingCoolingState(value: CharacteristicValue): Promise<void> {
+    if (this.setpoint !== 'A') {
+      return;
+    }
+    if (value === this.platform.Characteristic.TargetHeatingCoolingState.OFF) {
+      await this.write(0);
+      return;
+    }
+    const current = this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature).value as number;
+    await this.write(this.fromCelsius(current));
+  }
+
+  /**
+   * Handle "SET" requests for Target Temperature
+   */
+  private async setTargetTemperature(value: CharacteristicValue): Promise<void> {
+    await this.write(this.fromCelsius(value as number));
+  }
+
+  /**
+   * Write the setpoint (in device units) and publish the returned device state
+   */
+  private async write(temp: number): Promise<void> {
+    const label = this.setpoint === 'W' ? 'floor minimum' : 'away';
+    try {
+      const units = this.data?.TempUnits?.Val || 'C';
+      this.platform.log.info(`Set ${label} temperature for ${this.deviceId} -> ${temp === 0 ? 'unset' : `${temp}°${units}`}`);
+
+      const apiClient = this.platform.getApiClient();
+      const device = this.setpoint === 'W'
+        ? await apiClient.setDeviceFloorMin(this.deviceId, temp)
+        : await apiClient.setDeviceAwayTemp(this.deviceId, temp === 0 ? null : temp);
+      this.onDeviceUpdated(device);
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      this.platform.log.error(`Failed to set ${label} temperature:`, err.message || 'Unknown error');
+      throw this.platform.toHapStatusError(error);
+    }
+  }
+
+  /**
+   * Convert a HomeKit Celsius value to device units, clamped to FloorMin/FloorMax and quantized to TempSteps
+   */
+  private fromCelsius(tempC: number): number {
+    const schedule = this.data?.Schedule;
+    const units = this.data?.TempUnits?.Val || 'C';
+    let temp = units === 'F' ? (tempC * 9 / 5) + 32 : tempC;
+
+    const step = schedule?.TempSteps || (units === 'F' ? 1 : 0.5);
+    temp = Math.round(temp / step) * step;
+
+    if (schedule && typeof schedule.FloorMin === 'number' && typeof schedule.FloorMax === 'number') {
+      temp = Math.max(schedule.FloorMin, Math.min(schedule.FloorMax, temp));
+    }
+    return temp;
+  }
+
+  /**
+   * Convert a device value to Celsius
+   */
+  private toCelsius(temp: number, units: string): number {
+    if (units === 'F') {
+      return (temp - 32) * 5 / 9;
+    }
+    return temp;
+  }
+
+  /**
+   * Keep a value inside the current TargetTemperature props so updateCharacteristic doesn't warn
+   */
+  private clampToProps(tempC: number): number {
+    const props = this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature).props;
+    return Math.max(props.minValue ?? tempC, Math.min(props.maxValue ?? tempC, tempC));
+  }
+}
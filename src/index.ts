@@ -11,6 +11,22 @@ import { PLATFORM_NAME } from './settings.js';
 // Library exports for CLI and external use
 export { WattsAuth } from './lib/api/auth.js';
 export { WattsApiClient } from './lib/api/client.js';
+export {
+  WattsError,
+  WattsAuthError,
+  WattsRateLimitError,
+  WattsDeviceOfflineError,
+  WattsValidationError,
+  WattsServerError,
+  WattsNetworkError,
+} from './lib/api/errors.js';
+export type { WattsErrorDetails } from './lib/api/errors.js';
+export { FileTokenStore, MemoryTokenStore, TOKEN_KEY_ENV } from './lib/tokenStore.js';
+export type { TokenStore } from './lib/tokenStore.js';
+export { EnergyHistoryStore } from './lib/energy.js';
+export type { EnergyHistory, EnergyUsage } from './lib/energy.js';
+export { holdState, isFollowingSchedule, describeHold, HOLD_NONE, HOLD_PERMANENT, HOLD_TIMED } from './lib/hold.js';
+export type { HoldState } from './lib/hold.js';
 export * from './types/api.js';
 
 /**
@@ -5,36 +5,86 @@
 
 import axios from 'axios';
 import * as crypto from 'crypto';
-import * as fs from 'fs/promises';
 import * as path from 'path';
 import { TokenResponse, StoredTokens } from '../../types/api.js';
 import { logger } from '../logger.js';
+import { FileTokenStore, type TokenStore } from '../tokenStore.js';
+import {
+  WattsAuthError,
+  WattsError,
+  WattsNetworkError,
+  WattsRateLimitError,
+  WattsServerError,
+  toWattsError,
+} from './errors.js';
 
 const CLIENT_ID = 'c832c38c-ce70-4ebc-83b6-b4548083ac90';
 const REDIRECT_URI = 'msalc832c38c-ce70-4ebc-83b6-b4548083ac90://auth';
 const SCOPE = 'https://wattsb2cap02.onmicrosoft.com/wattsapiresi/manage offline_access openid profile';
 const POLICY = 'B2C_1A_Residential_UnifiedSignUpOrSignIn';
-const LOGIN_BASE = 'https://login.watts.io';
+export const LOGIN_BASE = 'https://login.watts.io';
+
+// Background refresh renews the access token this long before it expires
+const REFRESH_AHEAD_SECONDS = 600;
+// Shortest wait between background refresh attempts (also the retry delay after a failure)
+const MIN_REFRESH_DELAY_SECONDS = 30;
 
 interface PKCEPair {
   challenge: string;
   verifier: string;
 }
 
+/**
+ * Whether a token endpoint error means the refresh token is no longer valid
+ */
+function isInvalidGrant(error: unknown): boolean {
+  const data = (error as { response?: { data?: { error?: string } } })?.response?.data;
+  return data?.error === 'invalid_grant';
+}
+
+/**
+ * Convert a login or token endpoint failure into a WattsError
+ * Rejections become WattsAuthErrors; network, rate-limit and server failures keep their own type
+ */
+function toAuthError(error: unknown): WattsError {
+  const wattsError = toWattsError(error);
+  if (wattsError instanceof WattsAuthError || wattsError instanceof WattsNetworkError ||
+    wattsError instanceof WattsRateLimitError || wattsError instanceof WattsServerError) {
+    return wattsError;
+  }
+  // OAuth errors describe themselves in error_description rather than errorMessage
+  const data = (error as { response?: { data?: { error_description?: string } } })?.response?.data;
+  return new WattsAuthError(data?.error_description || wattsError.message, {
+    status: wattsError.status,
+    requestId: wattsError.requestId,
+    cause: error,
+  });
+}
+
 export class WattsAuth {
   private tokens: StoredTokens | null = null;
   private codeVerifier: string | null = null;
-  private tokensFile: string;
+  private store: TokenStore;
+  private credentials: { email: string; password: string } | null = null;
+  private refreshPromise: Promise<StoredTokens> | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private refreshGeneration = 0; // Bumped by stopBackgroundRefresh so an in-flight refresh doesn't re-arm the timer
 
-  constructor(storagePath?: string) {
-    if (storagePath) {
-      // Ensure directory exists
+  /**
+   * @param storagePath Directory for the encrypted token file (defaults to the current directory, for the CLI)
+   * @param store Custom token store; replaces the file store entirely
+   * @param loginBase Base URL of the login service (e.g. a local fake server for testing)
+   */
+  constructor(storagePath?: string, store?: TokenStore, private readonly loginBase = LOGIN_BASE) {
+    if (store) {
+      this.store = store;
+    } else if (storagePath) {
+      // Directory is created with proper permissions on first save
       const tokensDir = path.join(storagePath, 'homebridge-tekmar-wifi');
-      this.tokensFile = path.join(tokensDir, 'tokens.json');
-      // Create directory with proper permissions (will be done on first save)
+      this.store = new FileTokenStore(path.join(tokensDir, 'tokens.json'));
     } else {
       // Default: use process.cwd() for CLI compatibility
-      this.tokensFile = path.join(process.cwd(), 'tokens.json');
+      this.store = new FileTokenStore(path.join(process.cwd(), 'tokens.json'));
     }
   }
 
@@ -106,32 +156,27 @@ export class WattsAuth {
   }
 
   /**
-   * Load tokens from file
+   * Load tokens from the token store
    */
   async loadTokens(): Promise<StoredTokens | null> {
-    try {
-      const data = await fs.readFile(this.tokensFile, 'utf-8');
-      this.tokens = JSON.parse(data);
-      return this.tokens;
-    } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null; // File doesn't exist yet
-      }
-      throw error;
-    }
+    this.tokens = await this.store.load();
+    return this.tokens;
   }
 
   /**
-   * Save tokens to file
+   * Save tokens to the token store
    */
   async saveTokens(tokens: StoredTokens): Promise<void> {
     this.tokens = tokens;
-    // Ensure directory exists (for Homebridge storage path)
-    const tokensDir = path.dirname(this.tokensFile);
-    await fs.mkdir(tokensDir, { recursive: true, mode: 0o700 });
-    await fs.writeFile(this.tokensFile, JSON.stringify(tokens, null, 2), {
-      mode: 0o600, // Restrictive permissions
-    });
+    await this.store.save(tokens);
+  }
+
+  /**
+   * Forget stored tokens
+   */
+  async clearTokens(): Promise<void> {
+    this.tokens = null;
+    await this.store.clear();
   }
 
   /**
@@ -142,13 +187,75 @@ export class WattsAuth {
     return tokens.expires_at <= (now + bufferSeconds);
   }
 
+  /**
+   * Check if the refresh token is expired or expiring soon
+   */
+  isRefreshTokenExpired(tokens: StoredTokens, bufferSeconds = 60): boolean {
+    if (!tokens.refresh_token_expires_at) {
+      return false; // Expiry unknown; let the token endpoint decide
+    }
+    const now = Math.floor(Date.now() / 1000);
+    return tokens.refresh_token_expires_at <= (now + bufferSeconds);
+  }
+
+  /**
+   * Remember credentials so an expired or revoked refresh token can be replaced by logging in again
+   */
+  setCredentials(email: string, password: string): void {
+    this.credentials = { email, password };
+  }
+
+  /**
+   * Keep the access token fresh in the background, renewing it ahead of expiry
+   * Errors are reported to `onError` and retried after a short delay
+   */
+  startBackgroundRefresh(onError?: (error: unknown) => void): void {
+    this.stopBackgroundRefresh();
+
+    const expiresAt = this.tokens?.expires_at ?? 0;
+    const now = Math.floor(Date.now() / 1000);
+    const delay = Math.max(MIN_REFRESH_DELAY_SECONDS, expiresAt - now - REFRESH_AHEAD_SECONDS);
+
+    const generation = this.refreshGeneration;
+    this.refreshTimer = setTimeout(async () => {
+      try {
+        await this.refreshToken();
+      } catch (error: unknown) {
+        await logger.error('Background token refresh failed', error);
+        onError?.(error);
+      }
+      // Stopped (or restarted) while the refresh was in flight
+      if (generation === this.refreshGeneration) {
+        this.startBackgroundRefresh(onError);
+      }
+    }, delay * 1000);
+    // Don't keep a CLI process alive just to refresh tokens
+    this.refreshTimer.unref();
+  }
+
+  /**
+   * Stop the background refresher
+   */
+  stopBackgroundRefresh(): void {
+    this.refreshGeneration++;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
   /**
    * Get valid access token, refreshing if needed
    */
   async getValidToken(): Promise<string> {
+    // Wait for a refresh already under way rather than sending the token it replaces
+    if (this.refreshPromise) {
+      return (await this.refreshPromise).access_token;
+    }
+
     let tokens = this.tokens || (await this.loadTokens());
     if (!tokens) {
-      throw new Error('No tokens found. Please run "watts-cli login" first.');
+      throw new WattsAuthError('No tokens found. Please run "watts-cli login" first.');
     }
 
     if (this.isTokenExpired(tokens)) {
@@ -196,7 +303,7 @@ export class WattsAuth {
       return tokens;
     } catch (error: unknown) {
       await logger.error('Login failed', error);
-      throw error;
+      throw toAuthError(error);
     }
   }
 
@@ -207,7 +314,7 @@ export class WattsAuth {
     const { challenge, verifier } = this.generatePKCE();
     this.codeVerifier = verifier;
 
-    const url = new URL(`${LOGIN_BASE}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}/oauth2/v2.0/authorize`);
+    const url = new URL(`${this.loginBase}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}/oauth2/v2.0/authorize`);
     url.searchParams.set('scope', SCOPE);
     url.searchParams.set('response_type', 'code');
     url.searchParams.set('client_id', CLIENT_ID);
@@ -272,7 +379,7 @@ export class WattsAuth {
       password: password,
     });
 
-    const url = `${LOGIN_BASE}/wattsb2cap02.onmicrosoft.com/${POLICY}/SelfAsserted?tx=${encodeURIComponent(transId)}&p=${POLICY}`;
+    const url = `${this.loginBase}/wattsb2cap02.onmicrosoft.com/${POLICY}/SelfAsserted?tx=${encodeURIComponent(transId)}&p=${POLICY}`;
 
     const headers = {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -339,7 +446,7 @@ export class WattsAuth {
     transId: string,
     cookies: Record<string, string>,
   ): Promise<string> {
-    const baseUrl = `${LOGIN_BASE}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}`;
+    const baseUrl = `${this.loginBase}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}`;
     const url = `${baseUrl}/api/CombinedSigninAndSignup/confirmed?rememberMe=false&csrf_token=${csrfToken}&tx=${encodeURIComponent(transId)}&p=${POLICY}`;
 
     const headers = {
@@ -396,7 +503,7 @@ export class WattsAuth {
       client_info: '1',
     });
 
-    const url = `${LOGIN_BASE}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}/oauth2/v2.0/token`;
+    const url = `${this.loginBase}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}/oauth2/v2.0/token`;
 
     const headers = {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -429,11 +536,41 @@ export class WattsAuth {
 
   /**
    * Refresh access token using refresh token
+   * Concurrent callers share a single refresh request
    */
   async refreshToken(): Promise<StoredTokens> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Refresh after the API rejected an access token (HTTP 401)
+   * Requests rejected with the same token share one refresh; if the token has already been
+   * replaced, the current one is returned without refreshing again
+   */
+  async refreshRejectedToken(rejectedToken: string): Promise<string> {
+    if (!this.refreshPromise && this.tokens && this.tokens.access_token !== rejectedToken) {
+      return this.tokens.access_token;
+    }
+    return (await this.refreshToken()).access_token;
+  }
+
+  /**
+   * Exchange the refresh token for new tokens, logging in again when the refresh token
+   * has expired or been rejected
+   */
+  private async performRefresh(): Promise<StoredTokens> {
     const tokens = this.tokens || await this.loadTokens();
     if (!tokens) {
-      throw new Error('No tokens found. Please run "watts-cli login" first.');
+      throw new WattsAuthError('No tokens found. Please run "watts-cli login" first.');
+    }
+
+    if (this.isRefreshTokenExpired(tokens)) {
+      return this.loginAgain('Refresh token has expired');
     }
 
     const formData = new URLSearchParams({
@@ -444,24 +581,45 @@ export class WattsAuth {
       client_info: '1',
     });
 
-    const url = `${LOGIN_BASE}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}/oauth2/v2.0/token`;
+    const url = `${this.loginBase}/tfp/wattsb2cap02.onmicrosoft.com/${POLICY}/oauth2/v2.0/token`;
 
-    const response = await axios.post<TokenResponse>(url, formData.toString(), {
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-    });
-
-    const tokenResponse = response.data;
+    let tokenResponse: TokenResponse;
+    try {
+      const response = await axios.post<TokenResponse>(url, formData.toString(), {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      });
+      tokenResponse = response.data;
+    } catch (error: unknown) {
+      if (isInvalidGrant(error)) {
+        return this.loginAgain('Refresh token was rejected (invalid_grant)');
+      }
+      throw toAuthError(error);
+    }
 
     const newTokens: StoredTokens = {
       access_token: tokenResponse.access_token,
       refresh_token: tokenResponse.refresh_token || tokens.refresh_token, // Some APIs don't return new refresh token
       expires_at: tokenResponse.expires_on,
-      refresh_token_expires_at: tokens.refresh_token_expires_at, // Keep existing expiry
+      // A new refresh token comes with its own lifetime; otherwise keep the existing expiry
+      refresh_token_expires_at: tokenResponse.refresh_token && tokenResponse.refresh_token_expires_in
+        ? Math.floor(Date.now() / 1000) + tokenResponse.refresh_token_expires_in
+        : tokens.refresh_token_expires_at,
     };
 
     await this.saveTokens(newTokens);
     return newTokens;
   }
+
+  /**
+   * Replace tokens that can no longer be refreshed by logging in with the stored credentials
+   */
+  private async loginAgain(reason: string): Promise<StoredTokens> {
+    if (!this.credentials) {
+      throw new WattsAuthError(`${reason}. Please run "watts-cli login" again.`);
+    }
+    await logger.warn(`${reason}; logging in again`);
+    return this.login(this.credentials.email, this.credentials.password);
+  }
 }
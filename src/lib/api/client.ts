@@ -5,6 +5,8 @@
 
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { WattsAuth } from './auth.js';
+import { WattsError, WattsNetworkError, apiResponseError, toWattsError } from './errors.js';
+import { HOLD_NONE, holdSettings } from '../hold.js';
 import {
   ApiResponse,
   User,
@@ -12,21 +14,33 @@ import {
   Device,
   DeviceSummary,
   DeviceSettings,
+  ScheduleGroupKey,
+  WeeklySchedule,
 } from '../../types/api.js';
 
-const API_BASE = 'https://home.watts.com/api';
+export const API_BASE = 'https://home.watts.com/api';
 const REQUEST_TIMEOUT_MS = 15000;
 const MAX_RETRIES = 2;
 const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+export const SCHEDULE_GROUP_KEYS: ScheduleGroupKey[] = ['Grp1', 'Grp2', 'Grp3', 'Grp4', 'Grp5', 'Grp6', 'Grp7'];
+
+export type DeviceUpdateListener = (device: Device) => void;
+export type LocationUpdateListener = (location: Location) => void;
 
 export class WattsApiClient {
   private http: AxiosInstance;
   private auth: WattsAuth;
+  private readonly deviceUpdateListeners: DeviceUpdateListener[] = [];
+  private readonly locationUpdateListeners: LocationUpdateListener[] = [];
 
-  constructor(auth: WattsAuth) {
+  /**
+   * @param auth Authentication client that supplies access tokens
+   * @param apiBase Base URL of the API (e.g. a local fake server for testing)
+   */
+  constructor(auth: WattsAuth, apiBase = API_BASE) {
     this.auth = auth;
     this.http = axios.create({
-      baseURL: API_BASE,
+      baseURL: apiBase,
       headers: {
         'Api-Version': '2.0',
         'Content-Type': 'application/json',
@@ -42,11 +56,26 @@ export class WattsApiClient {
     });
   }
 
+  /**
+   * Register a listener called with the returned device after every successful device update
+   */
+  onDeviceUpdated(listener: DeviceUpdateListener): void {
+    this.deviceUpdateListeners.push(listener);
+  }
+
+  /**
+   * Register a listener called with the returned location after every successful location update
+   */
+  onLocationUpdated(listener: LocationUpdateListener): void {
+    this.locationUpdateListeners.push(listener);
+  }
+
   /**
    * Make authenticated API request
    */
   private async request<T>(config: AxiosRequestConfig): Promise<T> {
-    let lastError: unknown;
+    let lastError: WattsError | undefined;
+    let reauthenticated = false;
     for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
       try {
         const response = await this.http.request<ApiResponse<T>>({
@@ -56,20 +85,28 @@ export class WattsApiClient {
         const apiResponse = response.data;
 
         if (apiResponse.errorNumber !== 0) {
-          throw new Error(apiResponse.errorMessage || `API error: ${apiResponse.errorNumber}`);
+          throw apiResponseError(response.status, response.statusText, apiResponse, response.headers);
         }
 
         if (apiResponse.body === null || apiResponse.body === undefined) {
-          throw new Error('API returned empty body');
+          throw new WattsError('API returned empty body');
         }
 
         return apiResponse.body;
       } catch (error) {
-        lastError = error;
-        const isAxios = axios.isAxiosError(error);
-        const status = isAxios ? error.response?.status : undefined;
+        // Token rejected (revoked or expired early): force a refresh and retry once
+        if (axios.isAxiosError(error) && error.response?.status === 401 && !reauthenticated) {
+          reauthenticated = true;
+          const authorization = String(error.config?.headers?.Authorization ?? '');
+          await this.auth.refreshRejectedToken(authorization.replace(/^Bearer /, ''));
+          attempt--; // Doesn't count against the retry budget
+          continue;
+        }
+
+        lastError = toWattsError(error);
+        const status = lastError.status;
         const shouldRetry = attempt < MAX_RETRIES &&
-          (status === undefined || RETRY_STATUSES.includes(status));
+          (lastError instanceof WattsNetworkError || (status !== undefined && RETRY_STATUSES.includes(status)));
 
         if (shouldRetry) {
           const backoff = 250 * (attempt + 1);
@@ -77,20 +114,11 @@ export class WattsApiClient {
           continue;
         }
 
-        if (isAxios) {
-          if (error.response) {
-            const apiResponse = error.response.data as ApiResponse<unknown>;
-            throw new Error(
-              apiResponse?.errorMessage || `HTTP ${error.response.status}: ${error.response.statusText}`,
-            );
-          }
-          throw new Error(`Network error: ${error.message}`);
-        }
-        throw error;
+        throw lastError;
       }
     }
 
-    throw lastError as Error;
+    throw lastError;
   }
 
   /**
@@ -127,11 +155,13 @@ export class WattsApiClient {
    * Set away mode for a location
    */
   async setLocationAwayMode(locationId: string, away: boolean): Promise<Location> {
-    return this.request<Location>({
+    const location = await this.request<Location>({
       method: 'PATCH',
       url: `/Location/${locationId}/State`,
       data: { awayState: away ? 1 : 0 },
     });
+    this.locationUpdateListeners.forEach(listener => listener(location));
+    return location;
   }
 
   /**
@@ -148,11 +178,13 @@ export class WattsApiClient {
    * Update device settings
    */
   async updateDevice(deviceId: string, settings: DeviceSettings): Promise<Device> {
-    return this.request<Device>({
+    const device = await this.request<Device>({
       method: 'PATCH',
       url: `/Device/${deviceId}`,
       data: { Settings: settings },
     });
+    this.deviceUpdateListeners.forEach(listener => listener(device));
+    return device;
   }
 
   // Convenience methods for common operations
@@ -228,4 +260,61 @@ export class WattsApiClient {
       },
     });
   }
+
+  /**
+   * Get the weekly schedule (day-to-group mapping, event names and group events)
+   */
+  async getDeviceSchedule(deviceId: string): Promise<WeeklySchedule> {
+    const device = await this.getDevice(deviceId);
+    const schedule = device.data.Schedule;
+
+    const weekly: WeeklySchedule = {
+      Grp: schedule.Grp ?? null,
+      Event: schedule.Event ?? null,
+    };
+    for (const key of SCHEDULE_GROUP_KEYS) {
+      if (schedule[key] !== undefined) {
+        weekly[key] = schedule[key];
+      }
+    }
+    return weekly;
+  }
+
+  /**
+   * Replace the weekly schedule
+   * Only the schedule fields are sent, so floor settings are left untouched
+   */
+  async setDeviceSchedule(deviceId: string, schedule: WeeklySchedule): Promise<Device> {
+    const update: DeviceSettings['Schedule'] = {
+      Grp: schedule.Grp,
+      Event: schedule.Event,
+    };
+    for (const key of SCHEDULE_GROUP_KEYS) {
+      if (schedule[key] !== undefined) {
+        update[key] = schedule[key];
+      }
+    }
+    return this.updateDevice(deviceId, { Schedule: update });
+  }
+
+  /**
+   * Enable or disable the device's weekly schedule
+   */
+  async setDeviceScheduleEnabled(deviceId: string, enabled: boolean): Promise<Device> {
+    return this.updateDevice(deviceId, { SchedEnable: enabled ? 'On' : 'Off' });
+  }
+
+  /**
+   * Hold the current setpoints: permanently, or until `until`
+   */
+  async setDeviceHold(deviceId: string, until?: Date): Promise<Device> {
+    return this.updateDevice(deviceId, holdSettings(until));
+  }
+
+  /**
+   * Clear any hold so the weekly schedule applies again; a schedule that is off stays off
+   */
+  async resumeDeviceSchedule(deviceId: string): Promise<Device> {
+    return this.updateDevice(deviceId, { Hold: HOLD_NONE, HoldUntil: null });
+  }
 }
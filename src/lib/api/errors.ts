@@ -0,0 +1,169 @@
+/**
+ * Error types for the Watts Home API
+ * WattsApiClient and WattsAuth throw these so callers can tell failures apart
+ * (e.g. to pick a HomeKit status or a CLI exit code)
+ */
+
+import axios from 'axios';
+import { ApiResponse } from '../../types/api.js';
+
+// Headers the API and the login service use for the server-side request ID
+const REQUEST_ID_HEADERS = ['x-request-id', 'request-id', 'x-ms-request-id', 'x-correlation-id'];
+// The API reports unreachable devices in errorMessage rather than with a dedicated status
+const OFFLINE_PATTERN = /offline|not connected|disconnected|unreachable/i;
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT'];
+
+export interface WattsErrorDetails {
+  status?: number; // HTTP status
+  errorNumber?: number; // Non-zero errorNumber from the API response
+  retryAfter?: number; // Seconds, from the Retry-After header
+  requestId?: string; // Server request ID, for support requests
+  cause?: unknown;
+}
+
+/**
+ * Base class for every Watts API and authentication error
+ */
+export class WattsError extends Error {
+  readonly status?: number;
+  readonly errorNumber?: number;
+  readonly retryAfter?: number;
+  readonly requestId?: string;
+
+  constructor(message: string, details: WattsErrorDetails = {}) {
+    super(message, details.cause === undefined ? undefined : { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.errorNumber = details.errorNumber;
+    this.retryAfter = details.retryAfter;
+    this.requestId = details.requestId;
+  }
+}
+
+/**
+ * Not logged in, tokens rejected, or login failed (HTTP 401/403, invalid_grant)
+ */
+export class WattsAuthError extends WattsError {}
+
+/**
+ * Too many requests (HTTP 429); `retryAfter` says how long to wait when the API says so
+ */
+export class WattsRateLimitError extends WattsError {}
+
+/**
+ * The cloud is up but the device isn't reachable from it
+ */
+export class WattsDeviceOfflineError extends WattsError {}
+
+/**
+ * The API rejected the request's contents (HTTP 400/422), e.g. a setpoint out of range
+ */
+export class WattsValidationError extends WattsError {}
+
+/**
+ * The API failed on its side (HTTP 5xx)
+ */
+export class WattsServerError extends WattsError {}
+
+/**
+ * No response at all: DNS, connection refused, or a timeout
+ */
+export class WattsNetworkError extends WattsError {
+  readonly timedOut: boolean;
+
+  constructor(message: string, timedOut: boolean, details: WattsErrorDetails = {}) {
+    super(message, details);
+    this.timedOut = timedOut;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date) into seconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Find the server request ID in response headers
+ */
+function requestIdFrom(headers: Record<string, unknown> | undefined): string | undefined {
+  for (const name of REQUEST_ID_HEADERS) {
+    const value = headers?.[name];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build the error for a failed API response, from its HTTP status or its non-zero errorNumber
+ */
+export function apiResponseError(
+  status: number,
+  statusText: string,
+  data: unknown,
+  headers?: Record<string, unknown>,
+): WattsError {
+  const body = data as Partial<ApiResponse<unknown>> | undefined;
+  const errorNumber = body?.errorNumber || undefined;
+  const failed = status >= 400;
+  const message = body?.errorMessage ||
+    (failed ? `HTTP ${status}: ${statusText}` : `API error: ${errorNumber}`);
+  const details: WattsErrorDetails = {
+    // Keep the HTTP status so callers (e.g. the poller) can back off on 429/5xx
+    status: failed ? status : undefined,
+    errorNumber,
+    retryAfter: parseRetryAfter(headers?.['retry-after']),
+    requestId: requestIdFrom(headers),
+  };
+
+  if (status === 401 || status === 403) {
+    return new WattsAuthError(message, details);
+  }
+  if (status === 429) {
+    return new WattsRateLimitError(message, details);
+  }
+  if (OFFLINE_PATTERN.test(message)) {
+    return new WattsDeviceOfflineError(message, details);
+  }
+  if (status === 400 || status === 422) {
+    return new WattsValidationError(message, details);
+  }
+  if (status >= 500) {
+    return new WattsServerError(message, details);
+  }
+  return new WattsError(message, details);
+}
+
+/**
+ * Convert anything thrown by an axios call into a WattsError (WattsErrors pass through)
+ */
+export function toWattsError(error: unknown): WattsError {
+  if (error instanceof WattsError) {
+    return error;
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const { status, statusText, data, headers } = error.response;
+      return apiResponseError(status, statusText, data, headers as Record<string, unknown>);
+    }
+    const timedOut = TIMEOUT_CODES.includes(error.code ?? '');
+    return new WattsNetworkError(
+      timedOut ? `Request timed out: ${error.message}` : `Network error: ${error.message}`,
+      timedOut,
+      { cause: error },
+    );
+  }
+  const err = error as { message?: string };
+  return new WattsError(err.message || 'Unknown error', { cause: error });
+}
@@ -0,0 +1,144 @@
+/**
+ * Energy history store for Watts Home devices
+ * Accumulates the rolling Energy.Heat/Cool series reported by each device into
+ * per-device JSON files, so usage can be charted beyond the API's 7-day / 12-month window
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Device } from '../types/api.js';
+
+export interface EnergyUsage {
+  heat: number;
+  cool: number;
+}
+
+export interface EnergyHistory {
+  deviceId: string;
+  name: string;
+  updatedAt: string; // ISO 8601
+  daily: Record<string, EnergyUsage>; // Keyed by device-local date, YYYY-MM-DD
+  monthly: Record<string, EnergyUsage>; // Keyed by device-local month, YYYY-MM
+}
+
+/**
+ * Device-local "now", from the device's reported DateTime and TZOffset (read with UTC getters)
+ */
+function localDate(device: Device): Date {
+  const reported = device.data?.DateTime ? Date.parse(device.data.DateTime) : NaN;
+  const base = isNaN(reported) ? Date.now() : reported;
+  return new Date(base + (device.data?.TZOffset ?? 0) * 1000);
+}
+
+/**
+ * Set one entry of a series, returning whether it changed
+ */
+function mergeUsage(series: Record<string, EnergyUsage>, key: string, heat: number | undefined, cool: number | undefined): boolean {
+  if (typeof heat !== 'number' && typeof cool !== 'number') {
+    return false;
+  }
+  const usage: EnergyUsage = { heat: heat ?? 0, cool: cool ?? 0 };
+  const previous = series[key];
+  if (previous && previous.heat === usage.heat && previous.cool === usage.cool) {
+    return false;
+  }
+  series[key] = usage;
+  return true;
+}
+
+export class EnergyHistoryStore {
+  private historyDir: string;
+
+  constructor(storagePath: string) {
+    this.historyDir = path.join(storagePath, 'energy');
+  }
+
+  /**
+   * Load the stored history for a device
+   */
+  async load(deviceId: string): Promise<EnergyHistory | null> {
+    try {
+      const data = await fs.readFile(this.historyFile(deviceId), 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null; // Nothing recorded yet
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Merge a device's current Energy series into its stored history
+   * Returns the updated history; the file is only rewritten when something changed
+   */
+  async record(device: Device): Promise<EnergyHistory> {
+    const { history, changed } = await this.merge(device);
+    if (changed) {
+      history.updatedAt = new Date().toISOString();
+      await fs.mkdir(this.historyDir, { recursive: true });
+      await fs.writeFile(this.historyFile(device.deviceId), JSON.stringify(history, null, 2));
+    }
+    return history;
+  }
+
+  /**
+   * The stored history with a device's current Energy series merged in, without saving it
+   */
+  async preview(device: Device): Promise<EnergyHistory> {
+    return (await this.merge(device)).history;
+  }
+
+  /**
+   * Load the stored history and merge the device's current series into it, noting whether anything changed
+   */
+  private async merge(device: Device): Promise<{ history: EnergyHistory; changed: boolean }> {
+    const existing = await this.load(device.deviceId);
+    const history: EnergyHistory = existing ?? {
+      deviceId: device.deviceId,
+      name: device.name,
+      updatedAt: new Date().toISOString(),
+      daily: {},
+      monthly: {},
+    };
+
+    const energy = device.data?.Energy;
+    if (!energy) {
+      return { history, changed: false };
+    }
+
+    const now = localDate(device);
+    let changed = existing === null || history.name !== device.name;
+    history.name = device.name;
+
+    // Daily arrays are indexed by day of week (0 = Sunday)
+    for (let daysAgo = 0; daysAgo < 7; daysAgo++) {
+      const date = new Date(now.getTime() - daysAgo * 86400000);
+      const index = date.getUTCDay();
+      changed = mergeUsage(history.daily, date.toISOString().slice(0, 10), energy.Heat?.Daily?.[index], energy.Cool?.Daily?.[index]) || changed;
+    }
+
+    // Monthly arrays are indexed by calendar month (0 = January)
+    for (let monthsAgo = 0; monthsAgo < 12; monthsAgo++) {
+      const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - monthsAgo, 1));
+      const index = date.getUTCMonth();
+      changed = mergeUsage(history.monthly, date.toISOString().slice(0, 7), energy.Heat?.Monthly?.[index], energy.Cool?.Monthly?.[index]) || changed;
+    }
+
+    return { history, changed };
+  }
+
+  private historyFile(deviceId: string): string {
+    return path.join(this.historyDir, `${deviceId}.json`);
+  }
+}
+
+/**
+ * Format a history period as CSV (period,heat,cool), oldest first
+ */
+export function energyToCsv(series: Record<string, EnergyUsage>, periodLabel: string): string {
+  const rows = Object.keys(series)
+    .sort()
+    .map((key) => `${key},${series[key].heat},${series[key].cool}`);
+  return [`${periodLabel},heat,cool`, ...rows].join('\n');
+}
@@ -0,0 +1,74 @@
+/**
+ * Hold helpers for Watts Home devices
+ * Target.Hold says whether the setpoints come from the weekly schedule or are held:
+ * permanently, until a given time, or until the next schedule event.
+ * Only Hold = 0 has been seen in a real response; 1 (permanent) and 2 (timed) are unverified,
+ * so any other value is reported as an unknown hold rather than guessed at.
+ */
+
+import { DeviceData, DeviceSettings } from '../types/api.js';
+
+export const HOLD_NONE = 0;
+export const HOLD_PERMANENT = 1;
+export const HOLD_TIMED = 2;
+
+export type HoldState =
+  | { kind: 'none' }
+  | { kind: 'permanent' }
+  | { kind: 'timed'; until: Date | null } // null = until the next schedule event
+  | { kind: 'unknown'; value: number };
+
+/**
+ * Read the hold state a device reports; a timed hold that has already ended counts as none
+ */
+export function holdState(data: Pick<DeviceData, 'Target'> | null | undefined, now = new Date()): HoldState {
+  const target = data?.Target;
+  if (!target || !target.Hold) {
+    return { kind: 'none' };
+  }
+  if (target.Hold === HOLD_PERMANENT) {
+    return { kind: 'permanent' };
+  }
+  if (target.Hold !== HOLD_TIMED) {
+    return { kind: 'unknown', value: target.Hold };
+  }
+
+  const until = target.HoldUntil ? new Date(target.HoldUntil) : null;
+  if (until && !Number.isNaN(until.getTime())) {
+    return until <= now ? { kind: 'none' } : { kind: 'timed', until };
+  }
+  return { kind: 'timed', until: null };
+}
+
+/**
+ * Whether the device is running its weekly schedule with no hold in place
+ */
+export function isFollowingSchedule(data: Pick<DeviceData, 'Target' | 'SchedEnable'> | null | undefined): boolean {
+  return data?.SchedEnable?.Val === 'On' && holdState(data).kind === 'none';
+}
+
+/**
+ * Settings that place a hold: permanent without `until`, timed with it
+ */
+export function holdSettings(until?: Date): DeviceSettings {
+  return until
+    ? { Hold: HOLD_TIMED, HoldUntil: until.toISOString() }
+    : { Hold: HOLD_PERMANENT, HoldUntil: null };
+}
+
+/**
+ * Describe a device's schedule/hold state for logs and the CLI
+ */
+export function describeHold(data: Pick<DeviceData, 'Target' | 'SchedEnable'>): string {
+  const hold = holdState(data);
+  if (hold.kind === 'permanent') {
+    return 'Permanent hold';
+  }
+  if (hold.kind === 'timed') {
+    return hold.until ? `Hold until ${hold.until.toLocaleString()}` : 'Hold until the next schedule event';
+  }
+  if (hold.kind === 'unknown') {
+    return `Hold (unrecognized Hold value ${hold.value})`;
+  }
+  return data.SchedEnable?.Val === 'On' ? 'Following schedule' : 'Schedule off';
+}
@@ -0,0 +1,58 @@
+/**
+ * Mode capability helpers for Watts Home devices
+ * Heat-only (hydronic) units report a shorter Mode.Enum and/or Schedule.CoolActive = 0;
+ * Mode.Active = 0 means the mode can't be changed remotely at all
+ */
+
+import { DeviceData, DeviceMode } from '../types/api.js';
+
+export type ThermostatMode = DeviceMode['Val'];
+
+export const ALL_MODES: ThermostatMode[] = ['Off', 'Heat', 'Cool', 'Auto'];
+
+/**
+ * Modes a device can be set to, in canonical order
+ * The current mode is always included so it can still be displayed
+ */
+export function supportedModes(data: Pick<DeviceData, 'Mode' | 'Schedule'> | null | undefined): ThermostatMode[] {
+  const mode = data?.Mode;
+  if (!mode) {
+    return ALL_MODES;
+  }
+  if (mode.Active === 0) {
+    return mode.Val ? [mode.Val] : ALL_MODES;
+  }
+
+  const listed = Array.isArray(mode.Enum) && mode.Enum.length > 0 ? mode.Enum : ALL_MODES;
+  const canHeat = data.Schedule?.HeatActive !== 0;
+  const canCool = data.Schedule?.CoolActive !== 0;
+  return ALL_MODES.filter(candidate => {
+    if (candidate === mode.Val) {
+      return true;
+    }
+    if (!listed.includes(candidate)) {
+      return false;
+    }
+    if (candidate === 'Heat') {
+      return canHeat;
+    }
+    if (candidate === 'Cool') {
+      return canCool;
+    }
+    if (candidate === 'Auto') {
+      return canHeat && canCool;
+    }
+    return true;
+  });
+}
+
+/**
+ * Whether a device has cooling at all (regardless of whether its mode can be changed)
+ */
+export function canCool(data: Pick<DeviceData, 'Mode' | 'Schedule'> | null | undefined): boolean {
+  if (data?.Schedule?.CoolActive === 0) {
+    return false;
+  }
+  const listed = data?.Mode?.Enum;
+  return !Array.isArray(listed) || listed.length === 0 || listed.some(mode => mode === 'Cool' || mode === 'Auto');
+}
@@ -0,0 +1,62 @@
+/**
+ * Sensor status helpers for Watts Home devices
+ * Each probe in Sensors.* reports a Status alongside its value; anything other than
+ * "Okay" (e.g. "Open", "Short") means the value is not a real temperature
+ */
+
+import { SensorReading } from '../types/api.js';
+
+export const SENSOR_OK = 'Okay';
+
+// Anything outside this range is a probe fault, not a temperature
+const MIN_PLAUSIBLE_C = -50;
+const MAX_PLAUSIBLE_C = 100;
+
+/**
+ * Whether a sensor status reports a problem
+ */
+export function isSensorFault(status: string | undefined): boolean {
+  return !!status && status !== SENSOR_OK;
+}
+
+/**
+ * Whether a Celsius value could be a real temperature
+ */
+export function isPlausibleTemperature(tempC: number): boolean {
+  return Number.isFinite(tempC) && tempC >= MIN_PLAUSIBLE_C && tempC <= MAX_PLAUSIBLE_C;
+}
+
+/**
+ * Why a sensor reading can't be used, or null when it is valid
+ */
+export function sensorProblem(sensor: SensorReading | null | undefined, units: string): string | null {
+  if (!sensor) {
+    return null;
+  }
+  if (isSensorFault(sensor.Status)) {
+    return `sensor reports "${sensor.Status}"`;
+  }
+  if (typeof sensor.Val !== 'number') {
+    return 'no reading';
+  }
+  const tempC = units === 'F' ? (sensor.Val - 32) * 5 / 9 : sensor.Val;
+  if (!isPlausibleTemperature(tempC)) {
+    return `implausible reading ${sensor.Val}°${units}`;
+  }
+  return null;
+}
+
+/**
+ * Whether a sensor is present and its reading can be trusted
+ */
+export function isValidReading(sensor: SensorReading | null | undefined, units: string): sensor is SensorReading {
+  return !!sensor && sensorProblem(sensor, units) === null;
+}
+
+/**
+ * Format a reading for display, e.g. "21.5°C" or "-- (sensor reports "Short")"
+ */
+export function formatReading(sensor: SensorReading, units: string): string {
+  const problem = sensorProblem(sensor, units);
+  return problem ? `-- (${problem})` : `${sensor.Val}°${units}`;
+}
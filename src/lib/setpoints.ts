@@ -0,0 +1,23 @@
+/**
+ * Setpoint range helpers for HomeKit temperature characteristics
+ * HAP rounds written values to minStep counted from minValue, so a range that isn't on the
+ * step grid shifts every value (a 45°F / 7.2°C minimum would show 77°F as 25.2°C)
+ */
+
+/**
+ * HomeKit minStep (°C) for a device step in device units
+ * A Fahrenheit step is shown as the nearest half degree Celsius
+ */
+export function setpointStep(units: string, step: number): number {
+  return units === 'F' ? Math.max(0.5, Math.round(step * 5 / 9 * 2) / 2) : step;
+}
+
+/**
+ * Widen a °C range onto the minStep grid; writes are still clamped to the device's own limits
+ */
+export function alignToStep(minValue: number, maxValue: number, minStep: number): { minValue: number; maxValue: number } {
+  // Round away floating point noise before snapping, so 10 / 0.1 isn't floored to 99 steps
+  const onGrid = (value: number, round: (steps: number) => number) =>
+    Math.round(round(Math.round(value / minStep * 1000) / 1000) * minStep * 100) / 100;
+  return { minValue: onGrid(minValue, Math.floor), maxValue: onGrid(maxValue, Math.ceil) };
+}
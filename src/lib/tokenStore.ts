@@ -0,0 +1,173 @@
+/**
+ * Token storage for Watts Home API credentials
+ * The default file store encrypts tokens at rest with AES-256-GCM
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StoredTokens } from '../types/api.js';
+import { WattsAuthError } from './api/errors.js';
+import { logger } from './logger.js';
+
+// Passphrase used instead of the key file when set
+export const TOKEN_KEY_ENV = 'WATTS_TOKEN_KEY';
+
+const FORMAT_VERSION = 1;
+const KEY_LENGTH = 32;
+
+interface EncryptedTokenFile {
+  version: number;
+  salt: string; // base64
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64
+}
+
+/**
+ * Where WattsAuth keeps its tokens
+ */
+export interface TokenStore {
+  load(): Promise<StoredTokens | null>;
+  save(tokens: StoredTokens): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Keeps tokens in memory only (tests, short-lived scripts)
+ */
+export class MemoryTokenStore implements TokenStore {
+  constructor(private tokens: StoredTokens | null = null) {}
+
+  async load(): Promise<StoredTokens | null> {
+    return this.tokens;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.tokens = tokens;
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+/**
+ * Stores tokens in an encrypted JSON file
+ * The key is derived from the WATTS_TOKEN_KEY environment variable when set, otherwise
+ * from a random secret kept in a key file next to the tokens (created on first save).
+ * A plaintext tokens file from older versions is read once and rewritten encrypted.
+ * A file that can't be read back (unknown version, changed or missing key) fails with WattsAuthError.
+ */
+export class FileTokenStore implements TokenStore {
+  private readonly keyFile: string;
+
+  constructor(private readonly tokensFile: string) {
+    this.keyFile = path.join(path.dirname(tokensFile), `${path.basename(tokensFile, '.json')}.key`);
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.tokensFile, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null; // File doesn't exist yet
+      }
+      throw error;
+    }
+
+    const parsed = JSON.parse(contents) as EncryptedTokenFile | StoredTokens;
+    if ('access_token' in parsed) {
+      // Plaintext file from an older version: encrypt it in place
+      await logger.info('Migrating plaintext token file to encrypted storage', { file: this.tokensFile });
+      await this.save(parsed);
+      return parsed;
+    }
+
+    if (parsed.version !== FORMAT_VERSION) {
+      throw new WattsAuthError(`Unsupported token file version: ${parsed.version}. Please log in again.`);
+    }
+
+    const key = await this.deriveKey(Buffer.from(parsed.salt, 'base64'), false);
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(parsed.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(parsed.tag, 'base64'));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(parsed.data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf-8'));
+    } catch {
+      throw new WattsAuthError(`Unable to decrypt ${this.tokensFile}; the key has changed. Please log in again.`);
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    // Ensure directory exists (for Homebridge storage path)
+    await fs.mkdir(path.dirname(this.tokensFile), { recursive: true, mode: 0o700 });
+
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = await this.deriveKey(salt, true);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf-8'), cipher.final()]);
+
+    const file: EncryptedTokenFile = {
+      version: FORMAT_VERSION,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    // Write to a temporary file and rename it over the old one, so a crash or a concurrent
+    // save never leaves a truncated tokens file behind
+    const tempFile = `${this.tokensFile}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(tempFile, JSON.stringify(file, null, 2), {
+        mode: 0o600, // Restrictive permissions
+      });
+      await fs.rename(tempFile, this.tokensFile);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.tokensFile, { force: true });
+  }
+
+  /**
+   * Derive the encryption key for a salt from the env passphrase or the key file
+   */
+  private async deriveKey(salt: Buffer, createSecret: boolean): Promise<Buffer> {
+    const secret = process.env[TOKEN_KEY_ENV] || await this.readSecret(createSecret);
+    return crypto.scryptSync(secret, salt, KEY_LENGTH);
+  }
+
+  /**
+   * Read the local secret, creating it if asked to and it doesn't exist
+   */
+  private async readSecret(create: boolean): Promise<string> {
+    try {
+      return (await fs.readFile(this.keyFile, 'utf-8')).trim();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      if (!create) {
+        throw new WattsAuthError(`Token key file ${this.keyFile} not found. Set ${TOKEN_KEY_ENV} or log in again.`);
+      }
+    }
+
+    const secret = crypto.randomBytes(KEY_LENGTH).toString('base64');
+    try {
+      await fs.writeFile(this.keyFile, secret, { mode: 0o600, flag: 'wx' });
+      return secret;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      // Another process created the key first
+      return (await fs.readFile(this.keyFile, 'utf-8')).trim();
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+
+import type { TekmarHomebridgePlatform } from './platform.js';
+import { isPlausibleTemperature, isSensorFault } from './lib/sensors.js';
+
+/**
+ * An outdoor sensor reading reported by a thermostat, already converted to Celsius
+ */
+export interface OutdoorReading {
+  temperature: number;
+  status: string;
+}
+
+/**
+ * Outdoor Temperature Accessory
+ * One instance is created per location. Thermostats in the location report their
+ * outdoor sensor readings here, and a single authoritative reading is published.
+ */
+export class TekmarOutdoorSensorAccessory {
+  private service: Service;
+  private locationId: string;
+  private readonly readings: Map<string, OutdoorReading> = new Map();
+  private sourceDeviceId: string | null = null;
+
+  constructor(
+    private readonly platform: TekmarHomebridgePlatform,
+    private readonly accessory: PlatformAccessory,
+  ) {
+    const location = accessory.context.location as { locationId: string; name: string };
+    this.locationId = location.locationId;
+
+    // set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Tekmar')
+      .setCharacteristic(this.platform.Characteristic.Model, 'Outdoor Sensor')
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.locationId);
+
+    // get the TemperatureSensor service if it exists, otherwise create a new one
+    this.service = this.accessory.getService(this.platform.Service.TemperatureSensor) ||
+      this.accessory.addService(this.platform.Service.TemperatureSensor);
+
+    this.service.setCharacteristic(this.platform.Characteristic.Name, accessory.displayName);
+
+    // Outdoor readings can go well below freezing
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentTemperature).setProps({
+      minValue: -50,
+      maxValue: 100,
+    });
+  }
+
+  /**
+   * Record an outdoor reading from a thermostat and refresh the published value
+   */
+  updateReading(deviceId: string, reading: OutdoorReading) {
+    this.readings.set(deviceId, reading);
+
+    const sourceDeviceId = this.selectSource();
+    if (!sourceDeviceId) {
+      return;
+    }
+    if (sourceDeviceId !== this.sourceDeviceId) {
+      this.platform.log.debug(`Outdoor temperature for location ${this.locationId} now sourced from device ${sourceDeviceId}`);
+      this.sourceDeviceId = sourceDeviceId;
+    }
+
+    const source = this.readings.get(sourceDeviceId)!;
+    for (const [otherDeviceId, other] of this.readings) {
+      if (otherDeviceId !== sourceDeviceId && this.isValid(other) && Math.abs(other.temperature - source.temperature) >= 1) {
+        this.platform.log.debug(
+          `Outdoor readings disagree for location ${this.locationId}: ` +
+          `${source.temperature.toFixed(1)}°C (${sourceDeviceId}) vs ${other.temperature.toFixed(1)}°C (${otherDeviceId})`,
+        );
+      }
+    }
+
+    // A faulty probe keeps the last good value on display
+    const valid = this.isValid(source);
+    if (valid) {
+      this.service.updateCharacteristic(this.platform.Characteristic.CurrentTemperature, source.temperature);
+    }
+
+    // HomeKit: 0 = NO_FAULT, 1 = GENERAL_FAULT
+    this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, valid ? 0 : 1);
+    this.service.updateCharacteristic(this.platform.Characteristic.StatusActive, valid);
+  }
+
+  /**
+   * Forget a device's reading (e.g. when its outdoor sensor disappears)
+   */
+  removeReading(deviceId: string) {
+    this.readings.delete(deviceId);
+    if (this.sourceDeviceId === deviceId) {
+      this.sourceDeviceId = null;
+    }
+  }
+
+  /**
+   * Forget readings from devices that are no longer thermostats in the location
+   */
+  retainReadings(deviceIds: Set<string>) {
+    for (const deviceId of this.readings.keys()) {
+      if (!deviceIds.has(deviceId)) {
+        this.removeReading(deviceId);
+      }
+    }
+  }
+
+  /**
+   * Whether any thermostat in the location currently reports an outdoor reading
+   */
+  hasReadings(): boolean {
+    return this.readings.size > 0;
+  }
+
+  /**
+   * Pick the authoritative device: the first configured preference that has reported,
+   * otherwise stick with the current source so the value doesn't flip between devices.
+   * Devices with a working probe win over faulty ones.
+   */
+  private selectSource(): string | null {
+    const valid = [...this.readings].filter(([, reading]) => this.isValid(reading)).map(([deviceId]) => deviceId);
+    const candidates = valid.length > 0 ? valid : [...this.readings.keys()];
+
+    for (const deviceId of this.platform.getOutdoorSensorDeviceIds()) {
+      if (candidates.includes(deviceId)) {
+        return deviceId;
+      }
+    }
+    if (this.sourceDeviceId && candidates.includes(this.sourceDeviceId)) {
+      return this.sourceDeviceId;
+    }
+    return candidates[0] ?? null;
+  }
+
+  /**
+   * Whether a reading comes from a working probe and is a plausible temperature
+   */
+  private isValid(reading: OutdoorReading): boolean {
+    return !isSensorFault(reading.status) && isPlausibleTemperature(reading.temperature);
+  }
+}
@@ -1,10 +1,42 @@
-import type { API, Characteristic, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig, Service } from 'homebridge';
+import type {
+  API,
+  Characteristic,
+  DynamicPlatformPlugin,
+  HapStatusError,
+  Logging,
+  PlatformAccessory,
+  PlatformConfig,
+  Service,
+} from 'homebridge';
+import fakegato, { type FakeGatoHistoryServiceConstructor } from 'fakegato-history';
 
 import { TekmarThermostatAccessory } from './platformAccessory.js';
+import { TekmarOutdoorSensorAccessory, type OutdoorReading } from './outdoorAccessory.js';
+import { TekmarAwaySwitchAccessory } from './awayAccessory.js';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
 import { WattsAuth } from './lib/api/auth.js';
 import { WattsApiClient } from './lib/api/client.js';
-import type { DeviceSummary } from './types/api.js';
+import {
+  WattsAuthError,
+  WattsNetworkError,
+  WattsRateLimitError,
+  WattsValidationError,
+} from './lib/api/errors.js';
+import { EnergyHistoryStore } from './lib/energy.js';
+import { DevicePoller } from './poller.js';
+import { AccessoryRemovalTracker } from './removalTracker.js';
+import {
+  isDeviceSelected,
+  isLocationSelected,
+  matchesLocation,
+  type DeviceMatcher,
+  type DeviceOverride,
+  type LocationAlias,
+} from './deviceFilter.js';
+import type { DeviceSummary, Location } from './types/api.js';
+
+// First retry delay after a failed discovery, doubled on each further failure
+const DISCOVERY_RETRY_SECONDS = 30;
 
 /**
  * HomebridgePlatform
@@ -19,9 +51,38 @@ export class TekmarHomebridgePlatform implements DynamicPlatformPlugin {
   public readonly accessories: Map<string, PlatformAccessory> = new Map();
   public readonly discoveredCacheUUIDs: string[] = [];
 
+  // thermostat accessory handlers, keyed by accessory UUID
+  private readonly thermostats: Map<string, TekmarThermostatAccessory> = new Map();
+  // outdoor sensor accessory handlers, keyed by locationId
+  private readonly outdoorAccessories: Map<string, TekmarOutdoorSensorAccessory> = new Map();
+  // away switch accessory handlers, keyed by locationId
+  private readonly awayAccessories: Map<string, TekmarAwaySwitchAccessory> = new Map();
+  private readonly locations: Map<string, Location> = new Map();
+
   private auth: WattsAuth;
   private apiClient: WattsApiClient;
   private pollingInterval: number;
+  private discoveryInterval: number;
+  private discoveryTimer: NodeJS.Timeout | null = null;
+  private discoveryRetryDelay = DISCOVERY_RETRY_SECONDS;
+  private authenticated = false;
+  private discoveryCount = 0;
+  private removalTracker: AccessoryRemovalTracker;
+  private include: DeviceMatcher | undefined;
+  private exclude: DeviceMatcher | undefined;
+  private readonly deviceOverrides: Map<string, DeviceOverride> = new Map();
+  private locationSelectors: string[];
+  private skipSharedLocations: boolean;
+  private locationPrefix: boolean;
+  private locationAliases: LocationAlias[];
+  private offlineThreshold: number;
+  private poller: DevicePoller;
+  private outdoorSensorEnabled: boolean;
+  private outdoorSensorDeviceIds: string[];
+  private awaySwitchEnabled: boolean;
+  private pluginStoragePath: string;
+  private energyStore: EnergyHistoryStore | null = null;
+  private historyServiceClass: FakeGatoHistoryServiceConstructor | null = null;
 
   constructor(
     public readonly log: Logging,
@@ -34,16 +95,82 @@ export class TekmarHomebridgePlatform implements DynamicPlatformPlugin {
     // Get storage path from Homebridge
     const storagePath = api.user.storagePath();
     const pluginStoragePath = `${storagePath}/homebridge-tekmar-wifi`;
+    this.pluginStoragePath = pluginStoragePath;
 
-    // Initialize auth with configurable storage path
-    this.auth = new WattsAuth(pluginStoragePath);
+    // Initialize auth with configurable storage path (base URLs are only overridden for testing)
+    this.auth = new WattsAuth(pluginStoragePath, undefined, (config.loginBaseUrl as string | undefined) || undefined);
 
     // Initialize API client
-    this.apiClient = new WattsApiClient(this.auth);
+    this.apiClient = new WattsApiClient(this.auth, (config.apiBaseUrl as string | undefined) || undefined);
 
     // Get polling interval from config (default 120 seconds)
     this.pollingInterval = (config.pollingInterval as number) || 120;
 
+    // How often to re-run discovery, in minutes (default 60)
+    this.discoveryInterval = (config.discoveryInterval as number) || 60;
+
+    // Device filters and per-device overrides
+    this.include = config.include as DeviceMatcher | undefined;
+    this.exclude = config.exclude as DeviceMatcher | undefined;
+    for (const override of (config.deviceOverrides as DeviceOverride[] | undefined) ?? []) {
+      if (override.deviceId) {
+        this.deviceOverrides.set(override.deviceId, override);
+      }
+    }
+
+    // Location selection and naming
+    this.locationSelectors = (config.locations as string[] | undefined) ?? [];
+    this.skipSharedLocations = config.skipSharedLocations === true;
+    this.locationPrefix = config.locationPrefix === true;
+    this.locationAliases = (config.locationAliases as LocationAlias[] | undefined) ?? [];
+
+    // Accessories are removed after missing this many discoveries in a row (default 3)
+    this.removalTracker = new AccessoryRemovalTracker(pluginStoragePath, (config.removalGracePeriod as number) || 3);
+
+    // Consecutive failed polls before a thermostat is shown as offline (default 3)
+    this.offlineThreshold = (config.offlineThreshold as number) || 3;
+
+    // A single poller shared by all accessories, optionally adapting its interval to device state
+    const adaptive = (config.adaptivePolling ?? {}) as {
+      enabled?: boolean;
+      burstInterval?: number;
+      burstWindow?: number;
+      activeInterval?: number;
+      idleInterval?: number;
+    };
+    this.poller = new DevicePoller(this.apiClient, this.log, {
+      interval: this.pollingInterval,
+      adaptive: adaptive.enabled !== false,
+      burstInterval: adaptive.burstInterval || 10,
+      burstWindow: adaptive.burstWindow || 60,
+      // Active polling is never slower, and idle polling never faster, than the normal interval
+      activeInterval: Math.min(adaptive.activeInterval || 60, this.pollingInterval),
+      idleInterval: Math.max(adaptive.idleInterval || 300, this.pollingInterval),
+    });
+
+    // Outdoor sensor options (enabled by default)
+    this.outdoorSensorEnabled = config.outdoorSensor !== false;
+    this.outdoorSensorDeviceIds = (config.outdoorSensorDeviceIds as string[] | undefined) ?? [];
+
+    // Away switch per location (enabled by default)
+    this.awaySwitchEnabled = config.awaySwitch !== false;
+
+    // Energy usage history and Eve history (enabled by default)
+    if (config.energyHistory !== false) {
+      this.energyStore = new EnergyHistoryStore(pluginStoragePath);
+      this.historyServiceClass = fakegato(api);
+    }
+
+    // Keep location state (and away switches) current from the shared poller
+    if (this.awaySwitchEnabled) {
+      this.poller.on('locations', (locations: Location[]) => {
+        for (const location of locations.filter(location => this.isLocationSelected(location))) {
+          this.locations.set(location.locationId, location);
+          this.awayAccessories.get(location.locationId)?.updateLocation(location);
+        }
+      });
+    }
+
     this.log.debug('Finished initializing platform:', this.config.name);
 
     // When this event is fired it means Homebridge has restored all cached accessories from disk.
@@ -52,8 +179,23 @@ export class TekmarHomebridgePlatform implements DynamicPlatformPlugin {
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', () => {
       this.log.debug('Executed didFinishLaunching callback');
-      // run the method to discover / register your devices as accessories
-      this.discoverDevices();
+      if (!this.config.email || !this.config.password) {
+        this.log.error('Email and password are required in config');
+        return;
+      }
+      // run the method to discover / register your devices as accessories, then start polling
+      this.removalTracker.load()
+        .then(() => this.runDiscovery())
+        .finally(() => this.poller.start());
+    });
+
+    this.api.on('shutdown', () => {
+      if (this.discoveryTimer) {
+        clearTimeout(this.discoveryTimer);
+        this.discoveryTimer = null;
+      }
+      this.poller.stop();
+      this.auth.stopBackgroundRefresh();
     });
   }
 
@@ -67,61 +209,120 @@ export class TekmarHomebridgePlatform implements DynamicPlatformPlugin {
     // add the restored accessory to the accessories cache, so we can track if it has already been registered
     this.accessories.set(accessory.UUID, accessory);
 
+    // Location-level handlers are created during discovery, once the location is confirmed
+    if (accessory.context.kind === 'outdoor' || accessory.context.kind === 'away') {
+      return;
+    }
+
     // Create the accessory handler for the restored accessory
-    new TekmarThermostatAccessory(this, accessory);
+    this.thermostats.set(accessory.UUID, new TekmarThermostatAccessory(this, accessory));
+  }
+
+  /**
+   * Run discovery, then schedule the next run: after the discovery interval on success,
+   * or sooner with exponential backoff when it failed
+   */
+  private async runDiscovery() {
+    const succeeded = await this.discoverDevices();
+
+    let delay: number;
+    if (succeeded) {
+      this.discoveryRetryDelay = DISCOVERY_RETRY_SECONDS;
+      delay = this.discoveryInterval * 60;
+    } else {
+      delay = this.discoveryRetryDelay;
+      this.discoveryRetryDelay = Math.min(this.discoveryRetryDelay * 2, this.discoveryInterval * 60);
+      this.log.warn(`Discovery failed; retrying in ${delay}s`);
+    }
+
+    this.discoveryTimer = setTimeout(() => {
+      this.discoveryTimer = null;
+      this.runDiscovery();
+    }, delay * 1000);
   }
 
   /**
    * This method discovers all Tekmar thermostats and registers them as accessories.
+   * It runs at startup and periodically afterwards, so it also picks up new, renamed
+   * and deleted devices. Returns whether discovery completed.
    */
-  async discoverDevices() {
+  async discoverDevices(): Promise<boolean> {
     try {
-      // Authenticate using credentials from config
-      const email = this.config.email as string;
-      const password = this.config.password as string;
+      // Authenticate using credentials from config (once; tokens are refreshed in the background after that)
+      if (!this.authenticated) {
+        const email = this.config.email as string;
+        const password = this.config.password as string;
+        // Lets the auth client log in again if the refresh token expires or is revoked
+        this.auth.setCredentials(email, password);
+
+        this.log.info('Authenticating with Watts Home API...');
+        try {
+          await this.auth.login(email, password);
+          this.log.info('Authentication successful');
+        } catch (error: unknown) {
+          // If login fails, try loading existing tokens
+          const err = error as { message?: string };
+          const tokens = await this.auth.loadTokens();
+          if (!tokens) {
+            this.log.error('Authentication failed and no existing tokens found:', err.message || 'Unknown error');
+            return false;
+          }
+          this.log.info('Using existing tokens');
+        }
+        this.authenticated = true;
 
-      if (!email || !password) {
-        this.log.error('Email and password are required in config');
-        return;
+        this.auth.startBackgroundRefresh((error: unknown) => {
+          const err = error as { message?: string };
+          this.log.warn('Failed to refresh Watts Home tokens; retrying shortly:', err.message || 'Unknown error');
+        });
       }
 
-      this.log.info('Authenticating with Watts Home API...');
-      try {
-        await this.auth.login(email, password);
-        this.log.info('Authentication successful');
-      } catch (error: unknown) {
-        // If login fails, try loading existing tokens
-        const err = error as { message?: string };
-        const tokens = await this.auth.loadTokens();
-        if (!tokens) {
-          this.log.error('Authentication failed and no existing tokens found:', err.message || 'Unknown error');
-          return;
-        }
-        this.log.info('Using existing tokens');
-      }
+      this.discoveredCacheUUIDs.length = 0;
+
+      // Periodic re-discovery only logs at debug level, apart from changes
+      const report = this.discoveryCount === 0 ? this.log.info.bind(this.log) : this.log.debug.bind(this.log);
 
       // Get all locations
-      this.log.info('Discovering locations...');
-      const locations = await this.apiClient.getLocations();
-      this.log.info(`Found ${locations.length} location(s)`);
+      report('Discovering locations...');
+      const allLocations = await this.apiClient.getLocations();
+      report(`Found ${allLocations.length} location(s)`);
+
+      // Locations left out by the `locations` / `skipSharedLocations` config; their accessories are removed
+      const locations = allLocations.filter(location => this.isLocationSelected(location));
+      const skippedLocationIds: Set<string> = new Set();
+      for (const location of allLocations) {
+        if (!locations.includes(location)) {
+          report(`Skipping location "${location.name}"${location.isShared ? ' (shared)' : ''}`);
+          skippedLocationIds.add(location.locationId);
+        }
+      }
 
       // Get all devices across all locations
       const allDevices: Array<{ device: DeviceSummary; locationId: string }> = [];
+      // Locations whose device list couldn't be fetched; their accessories are left alone this run
+      const failedLocationIds: Set<string> = new Set();
+      // Devices filtered out by include/exclude; their accessories are removed without a grace period
+      const excludedUUIDs: Set<string> = new Set();
 
       for (const location of locations) {
+        this.locations.set(location.locationId, location);
         try {
           const devices = await this.apiClient.getLocationDevices(location.locationId);
-          this.log.info(`Found ${devices.length} device(s) in location "${location.name}"`);
+          report(`Found ${devices.length} device(s) in location "${location.name}"`);
           for (const device of devices) {
             allDevices.push({ device, locationId: location.locationId });
           }
         } catch (error: unknown) {
           const err = error as { message?: string };
           this.log.warn(`Failed to get devices for location ${location.name}:`, err.message || 'Unknown error');
+          failedLocationIds.add(location.locationId);
         }
       }
 
-      this.log.info(`Total devices discovered: ${allDevices.length}`);
+      report(`Total devices discovered: ${allDevices.length}`);
+
+      // Thermostats registered this run, per location (the outdoor sensor is fed by these)
+      const thermostatIds: Map<string, Set<string>> = new Map();
 
       // Register each device as an accessory
       for (const { device, locationId } of allDevices) {
@@ -134,32 +335,52 @@ export class TekmarHomebridgePlatform implements DynamicPlatformPlugin {
         // generate a unique id for the accessory
         const uuid = this.api.hap.uuid.generate(device.deviceId);
 
+        // Only register devices selected by the include/exclude config
+        const location = this.locations.get(locationId);
+        if (!isDeviceSelected(device, locationId, location?.name ?? '', this.include, this.exclude)) {
+          report(`Skipping filtered-out device: ${device.name} (${device.deviceId})`);
+          excludedUUIDs.add(uuid);
+          continue;
+        }
+        const name = this.thermostatName(device, location);
+        thermostatIds.set(locationId, (thermostatIds.get(locationId) ?? new Set()).add(device.deviceId));
+
         // see if an accessory with the same uuid has already been registered and restored from
         // the cached devices we stored in the `configureAccessory` method above
         const existingAccessory = this.accessories.get(uuid);
 
         if (existingAccessory) {
           // the accessory already exists
-          this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+          report('Restoring existing accessory from cache:', existingAccessory.displayName);
 
-          // create the accessory handler for the restored accessory
-          new TekmarThermostatAccessory(this, existingAccessory);
+          // pick up renames and location moves made in the Watts Home app
+          this.updateThermostatAccessory(existingAccessory, device, name, locationId);
+
+          // create the accessory handler for the restored accessory, unless configureAccessory already did
+          if (!this.thermostats.has(uuid)) {
+            this.thermostats.set(uuid, new TekmarThermostatAccessory(this, existingAccessory));
+          }
 
           // push into discoveredCacheUUIDs
           this.discoveredCacheUUIDs.push(uuid);
         } else {
           // the accessory does not yet exist, so we need to create it
-          this.log.info('Adding new accessory:', device.name);
+          this.log.info('Adding new accessory:', name);
+          if (locations.length > 1 && location) {
+            // HomeKit puts new bridged accessories in the bridge's room; with several homes that mixes zones up
+            this.log.info(`Room hint: ${name} is in location "${location.name}"; move it to a room for that home in the Home app`);
+          }
 
           // create a new accessory
-          const accessory = new this.api.platformAccessory(device.name, uuid);
+          const accessory = new this.api.platformAccessory(name, uuid);
 
           // store a copy of the device object in the `accessory.context`
           accessory.context.device = device;
           accessory.context.locationId = locationId;
 
           // create the accessory handler for the newly create accessory
-          new TekmarThermostatAccessory(this, accessory);
+          this.thermostats.set(uuid, new TekmarThermostatAccessory(this, accessory));
+          this.accessories.set(uuid, accessory);
 
           // link the accessory to your platform
           this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
@@ -169,20 +390,160 @@ export class TekmarHomebridgePlatform implements DynamicPlatformPlugin {
         }
       }
 
-      // Remove accessories that are no longer present
+      // Keep outdoor sensor accessories while a thermostat in the location still reports an outdoor
+      // reading; otherwise they go through the same grace period as missing thermostats.
+      // Until the first polls have come in, cached ones are kept as they are.
+      if (this.outdoorSensorEnabled) {
+        for (const location of locations) {
+          const uuid = this.outdoorAccessoryUUID(location.locationId);
+          if (!this.accessories.has(uuid) || failedLocationIds.has(location.locationId)) {
+            continue;
+          }
+          const handler = this.restoreOrCreateOutdoorAccessory(location);
+          handler.retainReadings(thermostatIds.get(location.locationId) ?? new Set());
+          if (this.discoveryCount === 0 || handler.hasReadings()) {
+            this.discoveredCacheUUIDs.push(uuid);
+          }
+        }
+      }
+
+      // Register an away switch for each location that supports away mode
+      if (this.awaySwitchEnabled) {
+        for (const location of locations) {
+          if (!location.supportsAway) {
+            continue;
+          }
+          const handler = this.restoreOrCreateAwayAccessory(location);
+          handler.updateLocation(location);
+          this.discoveredCacheUUIDs.push(this.awayAccessoryUUID(location.locationId));
+        }
+      }
+
+      // Remove accessories that have been missing from several discoveries in a row,
+      // so a device briefly absent from the API doesn't lose its HomeKit automations
       for (const [uuid, accessory] of this.accessories) {
-        if (!this.discoveredCacheUUIDs.includes(uuid)) {
-          this.log.info('Removing existing accessory from cache:', accessory.displayName);
-          this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+        if (this.discoveredCacheUUIDs.includes(uuid)) {
+          this.removalTracker.markPresent(uuid);
+          continue;
+        }
+        if (excludedUUIDs.has(uuid)) {
+          this.log.info('Removing filtered-out accessory:', accessory.displayName);
+          this.removeAccessory(uuid, accessory);
+          continue;
         }
+        const locationId = this.accessoryLocationId(accessory);
+        if (locationId && skippedLocationIds.has(locationId)) {
+          this.log.info('Removing accessory from skipped location:', accessory.displayName);
+          this.removeAccessory(uuid, accessory);
+          continue;
+        }
+        if (locationId && failedLocationIds.has(locationId)) {
+          this.log.debug(`Not checking ${accessory.displayName}: its location could not be loaded`);
+          continue;
+        }
+
+        const missing = this.removalTracker.markMissing(uuid, accessory.displayName);
+        if (!this.removalTracker.shouldRemove(uuid)) {
+          this.log.info(`Accessory ${accessory.displayName} not found (missing from ${missing} discovery run(s)); keeping it for now`);
+          continue;
+        }
+
+        this.log.info('Removing existing accessory from cache:', accessory.displayName);
+        this.removeAccessory(uuid, accessory);
       }
+
+      await this.removalTracker.save().catch((error: unknown) => {
+        const err = error as { message?: string };
+        this.log.warn('Failed to save accessory removal state:', err.message || 'Unknown error');
+      });
+
+      this.discoveryCount++;
+      return true;
     } catch (error: unknown) {
       const err = error as { message?: string };
       this.log.error('Failed to discover devices:', err.message || 'Unknown error');
       if (this.config.debug) {
         this.log.error('Error details:', error);
       }
+      return false;
+    }
+  }
+
+  /**
+   * Refresh a known thermostat's name and context from discovery
+   */
+  private updateThermostatAccessory(accessory: PlatformAccessory, device: DeviceSummary, name: string, locationId: string) {
+    const renamed = accessory.displayName !== name;
+    const moved = accessory.context.locationId !== locationId;
+    if (!renamed && !moved && JSON.stringify(accessory.context.device) === JSON.stringify(device)) {
+      return;
+    }
+
+    if (renamed) {
+      this.log.info(`Accessory renamed: ${accessory.displayName} -> ${name}`);
     }
+    this.thermostats.get(accessory.UUID)?.updateDevice(device, name, locationId);
+    this.api.updatePlatformAccessories([accessory]);
+  }
+
+  /**
+   * Whether a location is selected by the `locations` / `skipSharedLocations` config
+   */
+  private isLocationSelected(location: Location): boolean {
+    return isLocationSelected(location, this.locationSelectors, this.skipSharedLocations);
+  }
+
+  /**
+   * The name used for a location in accessory names: its alias, if configured, otherwise its name
+   */
+  private locationLabel(location: Location): string {
+    return this.locationAliases.find(entry => matchesLocation(entry.location, location))?.alias || location.name;
+  }
+
+  /**
+   * HomeKit name for a thermostat: the override name, otherwise the device name,
+   * prefixed with its location when `locationPrefix` is on
+   */
+  private thermostatName(device: DeviceSummary, location: Location | undefined): string {
+    const override = this.deviceOverrides.get(device.deviceId)?.name;
+    if (override) {
+      return override;
+    }
+    if (!this.locationPrefix || !location) {
+      return device.name;
+    }
+    const label = this.locationLabel(location);
+    return device.name.toLowerCase().startsWith(label.toLowerCase()) ? device.name : `${label} ${device.name}`;
+  }
+
+  /**
+   * The location an accessory belongs to, from its context
+   */
+  private accessoryLocationId(accessory: PlatformAccessory): string | undefined {
+    if (accessory.context.kind === 'outdoor' || accessory.context.kind === 'away') {
+      return (accessory.context.location as { locationId: string } | undefined)?.locationId;
+    }
+    const device = accessory.context.device as { location?: { locationId: string } } | undefined;
+    return (accessory.context.locationId as string | undefined) ?? device?.location?.locationId;
+  }
+
+  /**
+   * Tear down an accessory's handler and unregister it from Homebridge
+   */
+  private removeAccessory(uuid: string, accessory: PlatformAccessory) {
+    this.thermostats.get(uuid)?.destroy();
+    this.thermostats.delete(uuid);
+
+    const locationId = this.accessoryLocationId(accessory);
+    if (locationId && accessory.context.kind === 'outdoor') {
+      this.outdoorAccessories.delete(locationId);
+    } else if (locationId && accessory.context.kind === 'away') {
+      this.awayAccessories.delete(locationId);
+    }
+
+    this.removalTracker.forget(uuid);
+    this.accessories.delete(uuid);
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
   }
 
   /**
@@ -192,10 +553,191 @@ export class TekmarHomebridgePlatform implements DynamicPlatformPlugin {
     return this.apiClient;
   }
 
+  /**
+   * Get the shared device poller
+   */
+  getPoller(): DevicePoller {
+    return this.poller;
+  }
+
   /**
    * Get the polling interval in seconds
    */
   getPollingInterval(): number {
     return this.pollingInterval;
   }
+
+  /**
+   * Get the number of consecutive failed polls before a device is considered offline
+   */
+  getOfflineThreshold(): number {
+    return this.offlineThreshold;
+  }
+
+  /**
+   * Map a failed request to the HomeKit status that best describes it
+   * HapStatusErrors (e.g. from an offline check) pass through unchanged
+   */
+  toHapStatusError(error: unknown): HapStatusError {
+    const { HapStatusError, HAPStatus } = this.api.hap;
+    if (error instanceof HapStatusError) {
+      return error;
+    }
+    if (error instanceof WattsAuthError) {
+      return new HapStatusError(HAPStatus.INSUFFICIENT_AUTHORIZATION);
+    }
+    if (error instanceof WattsRateLimitError) {
+      return new HapStatusError(HAPStatus.RESOURCE_BUSY);
+    }
+    if (error instanceof WattsValidationError) {
+      return new HapStatusError(HAPStatus.INVALID_VALUE_IN_REQUEST);
+    }
+    if (error instanceof WattsNetworkError && error.timedOut) {
+      return new HapStatusError(HAPStatus.OPERATION_TIMED_OUT);
+    }
+    // Offline devices, server and other network errors show as "Not Responding"
+    return new HapStatusError(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  }
+
+  /**
+   * Get the per-device overrides for a device, if any are configured
+   */
+  getDeviceOverride(deviceId: string): DeviceOverride | undefined {
+    return this.deviceOverrides.get(deviceId);
+  }
+
+  /**
+   * Get the plugin's directory under the Homebridge storage path
+   */
+  getStoragePath(): string {
+    return this.pluginStoragePath;
+  }
+
+  /**
+   * Get the energy history store, or null when energy history is disabled
+   */
+  getEnergyStore(): EnergyHistoryStore | null {
+    return this.energyStore;
+  }
+
+  /**
+   * Get the Eve history service class, or null when energy history is disabled
+   */
+  getHistoryServiceClass(): FakeGatoHistoryServiceConstructor | null {
+    return this.historyServiceClass;
+  }
+
+  /**
+   * Get the device IDs preferred as the outdoor temperature source, in priority order
+   */
+  getOutdoorSensorDeviceIds(): string[] {
+    return this.outdoorSensorDeviceIds;
+  }
+
+  /**
+   * Receive an outdoor sensor reading from a thermostat and publish it on the
+   * location's shared outdoor accessory, creating the accessory on first report
+   */
+  reportOutdoorReading(locationId: string, deviceId: string, reading: OutdoorReading | null) {
+    if (!this.outdoorSensorEnabled) {
+      return;
+    }
+
+    let handler = this.outdoorAccessories.get(locationId);
+    if (!reading) {
+      handler?.removeReading(deviceId);
+      return;
+    }
+
+    if (!handler) {
+      const location = this.locations.get(locationId);
+      if (!location) {
+        // Location not confirmed by discovery yet; try again on the next poll
+        return;
+      }
+      handler = this.restoreOrCreateOutdoorAccessory(location);
+    }
+
+    handler.updateReading(deviceId, reading);
+  }
+
+  /**
+   * Get the outdoor sensor handler for a location, restoring it from cache or registering a new accessory
+   */
+  private restoreOrCreateOutdoorAccessory(location: Location): TekmarOutdoorSensorAccessory {
+    const existingHandler = this.outdoorAccessories.get(location.locationId);
+    if (existingHandler) {
+      return existingHandler;
+    }
+
+    const uuid = this.outdoorAccessoryUUID(location.locationId);
+    const existingAccessory = this.accessories.get(uuid);
+    let handler: TekmarOutdoorSensorAccessory;
+
+    if (existingAccessory) {
+      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+      handler = new TekmarOutdoorSensorAccessory(this, existingAccessory);
+    } else {
+      const name = `${this.locationLabel(location)} Outdoor`;
+      this.log.info('Adding new accessory:', name);
+
+      const accessory = new this.api.platformAccessory(name, uuid);
+      accessory.context.kind = 'outdoor';
+      accessory.context.location = { locationId: location.locationId, name: location.name };
+
+      handler = new TekmarOutdoorSensorAccessory(this, accessory);
+      this.accessories.set(uuid, accessory);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+
+    this.outdoorAccessories.set(location.locationId, handler);
+    return handler;
+  }
+
+  /**
+   * Get the away switch handler for a location, restoring it from cache or registering a new accessory
+   */
+  private restoreOrCreateAwayAccessory(location: Location): TekmarAwaySwitchAccessory {
+    const existingHandler = this.awayAccessories.get(location.locationId);
+    if (existingHandler) {
+      return existingHandler;
+    }
+
+    const uuid = this.awayAccessoryUUID(location.locationId);
+    const existingAccessory = this.accessories.get(uuid);
+    let handler: TekmarAwaySwitchAccessory;
+
+    if (existingAccessory) {
+      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+      handler = new TekmarAwaySwitchAccessory(this, existingAccessory);
+    } else {
+      const name = `${this.locationLabel(location)} Away`;
+      this.log.info('Adding new accessory:', name);
+
+      const accessory = new this.api.platformAccessory(name, uuid);
+      accessory.context.kind = 'away';
+      accessory.context.location = { locationId: location.locationId, name: location.name };
+
+      handler = new TekmarAwaySwitchAccessory(this, accessory);
+      this.accessories.set(uuid, accessory);
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    }
+
+    this.awayAccessories.set(location.locationId, handler);
+    return handler;
+  }
+
+  /**
+   * Generate the UUID for a location's away switch accessory
+   */
+  private awayAccessoryUUID(locationId: string): string {
+    return this.api.hap.uuid.generate(`away:${locationId}`);
+  }
+
+  /**
+   * Generate the UUID for a location's outdoor sensor accessory
+   */
+  private outdoorAccessoryUUID(locationId: string): string {
+    return this.api.hap.uuid.generate(`outdoor:${locationId}`);
+  }
 }
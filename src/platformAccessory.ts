@@ -1,7 +1,58 @@
-import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { Characteristic, CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+import type { FakeGatoHistoryService } from 'fakegato-history';
 
 import type { TekmarHomebridgePlatform } from './platform.js';
-import type { Device } from './types/api.js';
+import type { Device, DeviceSettings, DeviceSummary, SensorReading } from './types/api.js';
+import { FloorSetpointService, type FloorSetpoint } from './floorSetpointService.js';
+import { DeviceWriteQueue } from './writeQueue.js';
+import { isValidReading, sensorProblem } from './lib/sensors.js';
+import { canCool, supportedModes } from './lib/modes.js';
+import { describeHold, isFollowingSchedule } from './lib/hold.js';
+import { alignToStep, setpointStep } from './lib/setpoints.js';
+import { WattsValidationError } from './lib/api/errors.js';
+
+const FLOOR_SENSOR_SUBTYPE = 'floor';
+const SCHEDULE_SWITCH_SUBTYPE = 'schedule';
+const FOLLOW_SCHEDULE_SUBTYPE = 'follow-schedule';
+const FAN_SUBTYPE = 'fan';
+const HISTORY_INTERVAL_MS = 10 * 60 * 1000; // Eve expects one history entry every 10 minutes
+
+// HomeKit ranges for setpoint characteristics (°C), before per-device overrides
+const SETPOINT_RANGES: Record<'target' | 'cooling' | 'heating', [number, number]> = {
+  target: [10, 38],
+  cooling: [10, 35],
+  heating: [0, 25],
+};
+
+/**
+ * Setpoint limits a device reports, in its own units
+ */
+interface DeviceSetpointLimits {
+  units: string;
+  heatMin: number;
+  heatMax: number;
+  coolMin: number;
+  coolMax: number;
+  step: number;
+}
+
+/**
+ * Read the setpoint limits from device data: Schedule.HeatMin/HeatMax/CoolMin/CoolMax and
+ * TempSteps, falling back to Target.Min/Max/Steps
+ */
+function readSetpointLimits(data: Device['data']): DeviceSetpointLimits | null {
+  const { Schedule: schedule, Target: target } = data;
+  const units = data.TempUnits?.Val || 'C';
+  const heatMin = schedule?.HeatMin ?? target?.Min;
+  const heatMax = schedule?.HeatMax ?? target?.Max;
+  const coolMin = schedule?.CoolMin ?? target?.Min;
+  const coolMax = schedule?.CoolMax ?? target?.Max;
+  if (![heatMin, heatMax, coolMin, coolMax].every(value => typeof value === 'number')) {
+    return null;
+  }
+  const step = schedule?.TempSteps || target?.Steps || (units === 'F' ? 1 : 0.5);
+  return { units, heatMin, heatMax, coolMin, coolMax, step };
+}
 
 /**
  * Platform Accessory
@@ -10,12 +61,32 @@ import type { Device } from './types/api.js';
  */
 export class TekmarThermostatAccessory {
   private service: Service;
+  private floorService: Service | null = null;
+  private readonly floorSetpoints: Map<FloorSetpoint, FloorSetpointService> = new Map();
+  // Setpoint limits the device last reported (null until the first poll)
+  private deviceLimits: DeviceSetpointLimits | null = null;
+  // Modes offered in HomeKit, as last applied to TargetHeatingCoolingState (empty until the first poll)
+  private offeredModes: string[] = [];
+  private scheduleService: Service | null = null;
+  private followScheduleService: Service | null = null;
+  // Last reported hold state, to log when it changes (null until the first poll)
+  private holdDescription: string | null = null;
+  private fanService: Service | null = null;
+  private historyService: FakeGatoHistoryService | null = null;
+  private lastHistoryEntry = 0;
   private deviceId: string;
+  private deviceName: string;
+  private locationId: string | undefined;
+  private writeQueue: DeviceWriteQueue;
+  private online = true;
+  private readsFailing = false; // Thermostat reads currently answer SERVICE_COMMUNICATION_FAILURE
+  private failedPolls = 0;
+  // Current problem per sensor (Room/Floor/Outdoor), so faults are logged once
+  private readonly sensorProblems: Map<string, string> = new Map();
   private cachedDevice: Device | null = null;
   private cacheTimestamp: number = 0;
   private lastKnownData: Device['data'] | null = null;
   private readonly cacheTimeout = 5000; // 5 seconds
-  private pollInterval: NodeJS.Timeout | null = null;
 
   // State maps
   private readonly stateMap: Record<string, number> = {
@@ -43,8 +114,18 @@ export class TekmarThermostatAccessory {
     private readonly accessory: PlatformAccessory,
   ) {
     // Get device info from context
-    const device = accessory.context.device as { deviceId: string; name: string };
+    const device = accessory.context.device as { deviceId: string; name: string; location?: { locationId: string } };
     this.deviceId = device.deviceId;
+    // The platform names the accessory (device name, override or location-prefixed name)
+    this.deviceName = accessory.displayName;
+    this.locationId = (accessory.context.locationId as string | undefined) ?? device.location?.locationId;
+
+    // setpoint and mode changes are debounced and sent as one PATCH per burst
+    this.writeQueue = new DeviceWriteQueue(
+      this.platform.getApiClient(),
+      this.deviceId,
+      this.completeAutoTargets.bind(this),
+    );
 
     // set accessory information
     this.accessory.getService(this.platform.Service.AccessoryInformation)!
@@ -57,19 +138,57 @@ export class TekmarThermostatAccessory {
       this.accessory.addService(this.platform.Service.Thermostat);
 
     // set the service name
-    this.service.setCharacteristic(this.platform.Characteristic.Name, device.name);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.deviceName);
+
+    // StatusFault flags a thermostat that is offline or has a faulty room sensor; it isn't in the Thermostat service's optional list
+    this.service.addOptionalCharacteristic(this.platform.Characteristic.StatusFault);
+
+    // restore the floor sensor service from cache, if present
+    this.floorService = this.accessory.getServiceById(this.platform.Service.TemperatureSensor, FLOOR_SENSOR_SUBTYPE) || null;
+    if (this.floorService) {
+      this.service.addLinkedService(this.floorService);
+    }
+
+    // restore the schedule switch from cache, if present
+    const cachedScheduleService = this.accessory.getServiceById(this.platform.Service.Switch, SCHEDULE_SWITCH_SUBTYPE);
+    if (cachedScheduleService) {
+      this.scheduleService = this.setupScheduleService(cachedScheduleService);
+    }
+
+    // restore the "Following schedule" switch from cache, if present
+    const cachedFollowScheduleService = this.accessory.getServiceById(this.platform.Service.Switch, FOLLOW_SCHEDULE_SUBTYPE);
+    if (cachedFollowScheduleService) {
+      this.followScheduleService = this.setupFollowScheduleService(cachedFollowScheduleService);
+    }
+
+    // restore the fan service from cache, if present
+    const cachedFanService = this.accessory.getServiceById(this.platform.Service.Fanv2, FAN_SUBTYPE);
+    if (cachedFanService) {
+      this.fanService = this.setupFanService(cachedFanService);
+    }
+
+    // Eve history (heating/cooling run-time), when energy history is enabled
+    const HistoryService = this.platform.getHistoryServiceClass();
+    if (HistoryService) {
+      this.historyService = new HistoryService('thermo', this.accessory, {
+        storage: 'fs',
+        path: this.platform.getStoragePath(),
+        filename: `history_${this.deviceId}.json`,
+        log: this.platform.log,
+      });
+    }
+
+    // restore floor setpoint controls from cache, if present
+    for (const setpoint of ['W', 'A'] as FloorSetpoint[]) {
+      if (this.accessory.getServiceById(this.platform.Service.Thermostat, FloorSetpointService.subtype(setpoint))) {
+        this.addFloorSetpoint(setpoint);
+      }
+    }
 
     // register handlers for the characteristics
     this.registerHandlers();
 
-    // Perform initial update to populate characteristics immediately
-    // This ensures HomeKit has values right away (no slow getter calls needed)
-    this.updateDeviceStatus().catch((error: unknown) => {
-      const err = error as { message?: string };
-      this.platform.log.error(`Failed initial device status update for ${this.deviceId}:`, err.message || 'Unknown error');
-    });
-
-    // start polling for device status
+    // subscribe to the platform's shared poller for device status
     this.startPolling();
   }
 
@@ -86,26 +205,8 @@ export class TekmarThermostatAccessory {
       maxValue: 100,
     });
 
-    // Target Temperature: Typical thermostat range
-    this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature).setProps({
-      minValue: 10,
-      maxValue: 38,
-      minStep: 0.1,
-    });
-
-    // Cooling Threshold: HomeKit spec range
-    this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature).setProps({
-      minValue: 10,
-      maxValue: 35,
-      minStep: 0.1,
-    });
-
-    // Heating Threshold: HomeKit spec range
-    this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature).setProps({
-      minValue: 0,
-      maxValue: 25,
-      minStep: 0.1,
-    });
+    // Setpoints: HomeKit spec ranges until the device reports its own limits
+    this.applySetpointProps(this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature), 'target');
 
     // Register handlers following tado plugin pattern:
     // - DON'T register onGet handlers for characteristics updated via polling
@@ -121,13 +222,14 @@ export class TekmarThermostatAccessory {
     this.service.getCharacteristic(this.platform.Characteristic.TargetTemperature)
       .onSet(this.setTargetTemperature.bind(this));
 
-    // Cooling Threshold Temperature (read/write) - only onSet, no onGet
-    this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)
-      .onSet(this.setCoolingThresholdTemperature.bind(this));
-
-    // Heating Threshold Temperature (read/write) - only onSet, no onGet
-    this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)
-      .onSet(this.setHeatingThresholdTemperature.bind(this));
+    // Cooling / Heating Threshold Temperature (read/write) - only onSet, no onGet
+    // They only exist in Auto mode: restored from the cache here, added by ensureThresholdCharacteristics()
+    if (this.service.testCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)) {
+      this.setupThreshold(this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature), 'cooling');
+    }
+    if (this.service.testCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)) {
+      this.setupThreshold(this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature), 'heating');
+    }
 
     // Temperature Display Units - no handlers needed (read-only, updated via polling)
     // Current Temperature - no handlers needed (read-only, updated via polling)
@@ -169,20 +271,186 @@ export class TekmarThermostatAccessory {
 
   /**
    * Clamp temperature to valid HomeKit range
-   * Cooling Threshold: 10-35°C
-   * Heating Threshold: 0-25°C
+   * Cooling / Heating Threshold: see setpointRange()
    * General: -50-100°C (reasonable range for thermostats)
    */
   private clampTemperature(temp: number, type: 'cooling' | 'heating' | 'general'): number {
-    if (type === 'cooling') {
-      return Math.max(10, Math.min(35, temp));
-    } else if (type === 'heating') {
-      return Math.max(0, Math.min(25, temp));
+    if (type === 'cooling' || type === 'heating') {
+      const { minValue, maxValue } = this.setpointRange(type);
+      return Math.max(minValue, Math.min(maxValue, temp));
     }
     // General temperature: reasonable range for thermostats
     return Math.max(-50, Math.min(100, temp));
   }
 
+  /**
+   * Range (°C) for a setpoint characteristic: the device's reported limits (the HomeKit
+   * range until the first poll), narrowed by the device's minSetpoint / maxSetpoint override
+   */
+  private setpointRange(type: 'target' | 'cooling' | 'heating'): { minValue: number; maxValue: number } {
+    let [min, max] = SETPOINT_RANGES[type];
+    const limits = this.deviceLimits;
+    if (limits) {
+      const ranges = {
+        heating: [limits.heatMin, limits.heatMax],
+        cooling: [limits.coolMin, limits.coolMax],
+        target: [Math.min(limits.heatMin, limits.coolMin), Math.max(limits.heatMax, limits.coolMax)],
+      };
+      [min, max] = ranges[type].map(value => Math.round(this.convertToCelsius(value, limits.units) * 10) / 10);
+    }
+    const override = this.platform.getDeviceOverride(this.deviceId);
+    const clamp = (value: number) => Math.max(min, Math.min(max, value));
+    return {
+      minValue: clamp(override?.minSetpoint ?? min),
+      maxValue: clamp(override?.maxSetpoint ?? max),
+    };
+  }
+
+  /**
+   * Characteristic props for a setpoint: its range, widened onto the step grid, plus a step matching the device's
+   */
+  private setpointProps(type: 'target' | 'cooling' | 'heating'): { minValue: number; maxValue: number; minStep: number } {
+    const limits = this.deviceLimits;
+    const minStep = limits ? setpointStep(limits.units, limits.step) : 0.1;
+    const { minValue, maxValue } = this.setpointRange(type);
+    return { ...alignToStep(minValue, maxValue, minStep), minStep };
+  }
+
+  /**
+   * Apply a setpoint characteristic's props, first moving its value into the new range
+   * (setProps clamps it too, but HAP logs the out-of-range value as illegal, e.g. the default 0 at startup)
+   */
+  private applySetpointProps(characteristic: Characteristic, type: 'target' | 'cooling' | 'heating') {
+    const props = this.setpointProps(type);
+    const value = characteristic.value;
+    if (typeof value !== 'number' || value < props.minValue || value > props.maxValue) {
+      characteristic.updateValue(Math.max(props.minValue, Math.min(props.maxValue, typeof value === 'number' ? value : props.minValue)));
+    }
+    characteristic.setProps(props);
+  }
+
+  /**
+   * Round a setpoint in device units to the device's step and keep it inside the reported limits,
+   * so the value sent is one the device holds exactly (no drift from the °C <-> °F round trip)
+   */
+  private quantizeSetpoint(temp: number, units: string, kind: 'Heat' | 'Cool', round: (value: number) => number = Math.round): number {
+    const limits = this.deviceLimits?.units === units ? this.deviceLimits : null;
+    const step = limits?.step || (units === 'F' ? 1 : 0.5);
+    let quantized = round(temp / step) * step;
+    if (limits) {
+      const [min, max] = kind === 'Heat' ? [limits.heatMin, limits.heatMax] : [limits.coolMin, limits.coolMax];
+      quantized = Math.max(min, Math.min(max, quantized));
+    }
+    // Drop floating point noise from fractional steps (e.g. 0.1)
+    return Math.round(quantized * 100) / 100;
+  }
+
+  /**
+   * Settings for an Auto mode setpoint write that keep heat and cool at least TempInterlock apart
+   * The other setpoint is pushed away when the new value gets too close (or, if that one is at its
+   * limit, the new value gives way), the adjustment is logged and shown in HomeKit right away
+   */
+  private withInterlock(kind: 'Heat' | 'Cool', temp: number, units: string, data: Device['data'] | null): DeviceSettings {
+    const settings: DeviceSettings = { [kind]: temp };
+    const interlock = data?.TempInterlock;
+    if (!interlock || interlock <= 0) {
+      return settings;
+    }
+
+    // The other threshold's characteristic reflects writes still waiting in the queue
+    const otherKind = kind === 'Heat' ? 'Cool' : 'Heat';
+    const { CoolingThresholdTemperature, HeatingThresholdTemperature } = this.platform.Characteristic;
+    const characteristicFor = (which: 'Heat' | 'Cool') => which === 'Heat' ? HeatingThresholdTemperature : CoolingThresholdTemperature;
+    const otherC = this.service.testCharacteristic(characteristicFor(otherKind))
+      ? this.service.getCharacteristic(characteristicFor(otherKind)).value as number | null
+      : null;
+    const other = typeof otherC === 'number'
+      ? this.quantizeSetpoint(this.convertFromCelsius(otherC, units), units, otherKind)
+      : data?.Target?.[otherKind];
+    if (typeof other !== 'number') {
+      return settings;
+    }
+    let heat = kind === 'Heat' ? temp : other;
+    let cool = kind === 'Cool' ? temp : other;
+    if (cool - heat >= interlock) {
+      return settings;
+    }
+
+    // Push the other setpoint away, rounding outwards so the gap never ends up short; if it is
+    // stuck at its limit, the new value gives way instead
+    if (kind === 'Heat') {
+      cool = this.quantizeSetpoint(heat + interlock, units, 'Cool', Math.ceil);
+      if (cool - heat < interlock) {
+        heat = this.quantizeSetpoint(cool - interlock, units, 'Heat', Math.floor);
+      }
+    } else {
+      heat = this.quantizeSetpoint(cool - interlock, units, 'Heat', Math.floor);
+      if (cool - heat < interlock) {
+        cool = this.quantizeSetpoint(heat + interlock, units, 'Cool', Math.ceil);
+      }
+    }
+
+    this.platform.log.info(
+      `${this.deviceName}: adjusted Auto setpoints to heat ${heat}°${units} / cool ${cool}°${units} ` +
+      `to keep the ${interlock}°${units} gap (requested ${kind.toLowerCase()} ${temp}°${units}, ` +
+      `${otherKind.toLowerCase()} was ${other}°${units})`,
+    );
+    if (this.service.testCharacteristic(HeatingThresholdTemperature)) {
+      this.service.updateCharacteristic(HeatingThresholdTemperature, this.convertToCelsius(heat, units));
+    }
+    if (this.service.testCharacteristic(CoolingThresholdTemperature)) {
+      this.service.updateCharacteristic(CoolingThresholdTemperature, this.convertToCelsius(cool, units));
+    }
+    return { Heat: heat, Cool: cool };
+  }
+
+  /**
+   * Offer only the modes the device supports (Mode.Active, Mode.Enum, Schedule.HeatActive/CoolActive)
+   * in TargetHeatingCoolingState, and only the states it can reach in CurrentHeatingCoolingState
+   */
+  private updateModeCapabilities(data: Device['data']) {
+    const modes = supportedModes(data);
+    if (modes.join() === this.offeredModes.join()) {
+      return;
+    }
+    this.offeredModes = modes;
+    this.platform.log.debug(`${this.deviceName}: supported modes ${modes.join(', ')}`);
+
+    const { TargetHeatingCoolingState, CurrentHeatingCoolingState } = this.platform.Characteristic;
+    this.service.getCharacteristic(TargetHeatingCoolingState).setProps({
+      validValues: modes.map(mode => this.modeMap[mode]),
+    });
+    const states = [CurrentHeatingCoolingState.OFF, CurrentHeatingCoolingState.HEAT];
+    if (canCool(data)) {
+      states.push(CurrentHeatingCoolingState.COOL);
+    }
+    this.service.getCharacteristic(CurrentHeatingCoolingState).setProps({ validValues: states });
+  }
+
+  /**
+   * Track the setpoint limits the device reports and re-apply the setpoint props when they change
+   */
+  private updateSetpointLimits(data: Device['data']) {
+    const limits = readSetpointLimits(data);
+    if (!limits || JSON.stringify(limits) === JSON.stringify(this.deviceLimits)) {
+      return;
+    }
+    this.deviceLimits = limits;
+    this.platform.log.debug(
+      `${this.deviceName}: setpoint limits heat ${limits.heatMin}-${limits.heatMax}°${limits.units}, ` +
+      `cool ${limits.coolMin}-${limits.coolMax}°${limits.units}, step ${limits.step}`,
+    );
+
+    const { TargetTemperature, CoolingThresholdTemperature, HeatingThresholdTemperature } = this.platform.Characteristic;
+    this.applySetpointProps(this.service.getCharacteristic(TargetTemperature), 'target');
+    if (this.service.testCharacteristic(CoolingThresholdTemperature)) {
+      this.applySetpointProps(this.service.getCharacteristic(CoolingThresholdTemperature), 'cooling');
+    }
+    if (this.service.testCharacteristic(HeatingThresholdTemperature)) {
+      this.applySetpointProps(this.service.getCharacteristic(HeatingThresholdTemperature), 'heating');
+    }
+  }
+
   /**
    * Update cached device after a write operation
    */
@@ -194,6 +462,43 @@ export class TekmarThermostatAccessory {
     }
   }
 
+  /**
+   * Queue a settings write and publish the resulting device state
+   */
+  private async writeSettings(settings: DeviceSettings): Promise<Device> {
+    const device = await this.writeQueue.enqueue(settings);
+    this.updateCache(device);
+    return device;
+  }
+
+  /**
+   * In Auto mode the API expects Heat and Cool together; fill in whichever one wasn't changed
+   */
+  private completeAutoTargets(settings: DeviceSettings): DeviceSettings {
+    const data = this.cachedDevice?.data ?? this.lastKnownData;
+    const mode = settings.Mode ?? data?.Mode?.Val;
+    if (mode !== 'Auto' || (settings.Heat === undefined) === (settings.Cool === undefined)) {
+      return settings;
+    }
+
+    const units = data?.TempUnits?.Val || 'C';
+    const completed = { ...settings };
+    // Reading a threshold the service doesn't have would add one without a write handler
+    const thresholdC = (characteristic: typeof Characteristic.HeatingThresholdTemperature) => this.service.testCharacteristic(characteristic)
+      ? this.service.getCharacteristic(characteristic).value as number | null
+      : null;
+    if (completed.Heat === undefined) {
+      const heatC = thresholdC(this.platform.Characteristic.HeatingThresholdTemperature);
+      completed.Heat = data?.Target?.Heat ??
+        (heatC !== null ? this.quantizeSetpoint(this.convertFromCelsius(heatC, units), units, 'Heat') : undefined);
+    } else {
+      const coolC = thresholdC(this.platform.Characteristic.CoolingThresholdTemperature);
+      completed.Cool = data?.Target?.Cool ??
+        (coolC !== null ? this.quantizeSetpoint(this.convertFromCelsius(coolC, units), units, 'Cool') : undefined);
+    }
+    return completed;
+  }
+
   /**
    * Convert temperature from API units to Celsius
    */
@@ -224,14 +529,10 @@ export class TekmarThermostatAccessory {
 
     if (isAuto) {
       if (!this.service.testCharacteristic(coolingChar)) {
-        const c = this.service.addCharacteristic(coolingChar);
-        c.setProps({ minValue: 10, maxValue: 35, minStep: 0.1 });
-        c.onSet(this.setCoolingThresholdTemperature.bind(this));
+        this.setupThreshold(this.service.addCharacteristic(coolingChar), 'cooling');
       }
       if (!this.service.testCharacteristic(heatingChar)) {
-        const h = this.service.addCharacteristic(heatingChar);
-        h.setProps({ minValue: 0, maxValue: 25, minStep: 0.1 });
-        h.onSet(this.setHeatingThresholdTemperature.bind(this));
+        this.setupThreshold(this.service.addCharacteristic(heatingChar), 'heating');
       }
     } else {
       if (this.service.testCharacteristic(coolingChar)) {
@@ -244,159 +545,367 @@ export class TekmarThermostatAccessory {
   }
 
   /**
-   * Handle "GET" requests for Current Heating Cooling State
+   * Give an Auto threshold characteristic the setpoint range and its write handler
+   * Every threshold the service has must be set up this way, or HomeKit writes to it go nowhere
    */
-  private async getCurrentHeatingCoolingState(): Promise<CharacteristicValue> {
-    try {
-      const data = await this.getDeviceData();
-      if (!data || !data.State || !data.State.Op) {
-        this.platform.log.warn('Device data not available for current state');
-        // Throw error instead of returning default - let HomeKit show "Not Responding"
-        throw new this.platform.api.hap.HapStatusError(
-          this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-        );
-      }
-      const state = data.State.Op;
-      const value = this.stateMap[state] ?? 0;
-      this.platform.log.debug(`Get CurrentHeatingCoolingState -> ${value} (${state})`);
-      return value;
-    } catch (error: unknown) {
-      if (error instanceof this.platform.api.hap.HapStatusError) {
-        throw error;
+  private setupThreshold(characteristic: Characteristic, type: 'cooling' | 'heating') {
+    this.applySetpointProps(characteristic, type);
+    characteristic.onSet(type === 'cooling'
+      ? this.setCoolingThresholdTemperature.bind(this)
+      : this.setHeatingThresholdTemperature.bind(this));
+  }
+
+  /**
+   * Ensure the floor TemperatureSensor service exists only while the device reports a Floor sensor
+   */
+  private ensureFloorService(hasFloorSensor: boolean): Service | null {
+    if (hasFloorSensor && !this.floorService) {
+      this.platform.log.info(`Adding floor temperature sensor for ${this.deviceName}`);
+      this.floorService = this.accessory.addService(
+        this.platform.Service.TemperatureSensor,
+        `${this.deviceName} Floor`,
+        FLOOR_SENSOR_SUBTYPE,
+      );
+      this.floorService.getCharacteristic(this.platform.Characteristic.CurrentTemperature).setProps({
+        minValue: -50,
+        maxValue: 100,
+      });
+      this.service.addLinkedService(this.floorService);
+    } else if (!hasFloorSensor && this.floorService) {
+      this.platform.log.info(`Removing floor temperature sensor for ${this.deviceName}`);
+      this.service.removeLinkedService(this.floorService);
+      this.accessory.removeService(this.floorService);
+      this.floorService = null;
+    }
+    return this.floorService;
+  }
+
+  /**
+   * Update the floor TemperatureSensor service from device data
+   */
+  private updateFloorSensor(data: Device['data'], units: string) {
+    const floor = data.Sensors?.Floor;
+    const enabled = this.platform.getDeviceOverride(this.deviceId)?.floorSensor !== false;
+    const floorService = this.ensureFloorService(enabled && floor !== undefined && floor !== null);
+    if (!floorService || !floor) {
+      return;
+    }
+
+    const valid = this.checkSensor('Floor', floor, units);
+    if (valid) {
+      floorService.updateCharacteristic(this.platform.Characteristic.CurrentTemperature, this.convertToCelsius(floor.Val, units));
+    }
+
+    // HomeKit: 0 = NO_FAULT, 1 = GENERAL_FAULT
+    floorService.updateCharacteristic(this.platform.Characteristic.StatusFault, valid ? 0 : 1);
+    floorService.updateCharacteristic(this.platform.Characteristic.StatusActive, valid);
+  }
+
+  /**
+   * Create the handler for a floor setpoint control and link it to the thermostat
+   */
+  private addFloorSetpoint(setpoint: FloorSetpoint): FloorSetpointService {
+    const handler = new FloorSetpointService(
+      this.platform,
+      this.accessory,
+      this.deviceId,
+      setpoint,
+      (device) => {
+        this.updateCache(device);
+        this.updateDeviceStatus();
+      },
+      this.floorSetpointName(setpoint),
+    );
+    this.service.addLinkedService(handler.getService());
+    this.floorSetpoints.set(setpoint, handler);
+    return handler;
+  }
+
+  /**
+   * Service name for a floor setpoint control
+   */
+  private floorSetpointName(setpoint: FloorSetpoint): string {
+    return setpoint === 'W' ? `${this.deviceName} Floor Minimum` : `${this.deviceName} Away Temperature`;
+  }
+
+  /**
+   * Ensure floor minimum / away temperature controls exist only for devices with floor heating
+   */
+  private updateFloorSetpoints(data: Device['data']) {
+    const enabled = (this.platform.getDeviceOverride(this.deviceId)?.floorControls ?? this.platform.config.floorControls !== false) &&
+      !!data.Schedule?.FloorActive && data.Schedule.Floor !== undefined && data.Schedule.Floor !== null;
+
+    for (const setpoint of ['W', 'A'] as FloorSetpoint[]) {
+      let handler = this.floorSetpoints.get(setpoint);
+      if (enabled) {
+        if (!handler) {
+          this.platform.log.info(`Adding ${setpoint === 'W' ? 'floor minimum' : 'away temperature'} control for ${this.deviceName}`);
+          handler = this.addFloorSetpoint(setpoint);
+        }
+        handler.update(data);
+      } else if (handler) {
+        this.platform.log.info(`Removing ${setpoint === 'W' ? 'floor minimum' : 'away temperature'} control for ${this.deviceName}`);
+        this.service.removeLinkedService(handler.getService());
+        this.accessory.removeService(handler.getService());
+        this.floorSetpoints.delete(setpoint);
       }
-      const err = error as { message?: string };
-      this.platform.log.error('Failed to get current heating cooling state:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+    }
+  }
+
+  /**
+   * Register handlers on the schedule switch and link it to the thermostat
+   */
+  private setupScheduleService(service: Service): Service {
+    service.setCharacteristic(this.platform.Characteristic.Name, `${this.deviceName} Schedule`);
+    service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setScheduleEnabled.bind(this));
+    this.service.addLinkedService(service);
+    return service;
+  }
+
+  /**
+   * Ensure the schedule switch exists only for devices that support SchedEnable
+   */
+  private updateScheduleSwitch(data: Device['data']) {
+    const enabled = (this.platform.getDeviceOverride(this.deviceId)?.scheduleSwitch ?? this.platform.config.scheduleSwitch !== false) &&
+      !!data.SchedEnable?.Active;
+
+    if (enabled && !this.scheduleService) {
+      this.platform.log.info(`Adding schedule switch for ${this.deviceName}`);
+      this.scheduleService = this.setupScheduleService(
+        this.accessory.addService(this.platform.Service.Switch, `${this.deviceName} Schedule`, SCHEDULE_SWITCH_SUBTYPE),
       );
+    } else if (!enabled && this.scheduleService) {
+      this.platform.log.info(`Removing schedule switch for ${this.deviceName}`);
+      this.service.removeLinkedService(this.scheduleService);
+      this.accessory.removeService(this.scheduleService);
+      this.scheduleService = null;
+    }
+
+    if (this.scheduleService && data.SchedEnable?.Val) {
+      this.scheduleService.updateCharacteristic(this.platform.Characteristic.On, data.SchedEnable.Val === 'On');
     }
   }
 
   /**
-   * Handle "GET" requests for Target Heating Cooling State
+   * Handle "SET" requests for the schedule switch
    */
-  private async getTargetHeatingCoolingState(): Promise<CharacteristicValue> {
+  private async setScheduleEnabled(value: CharacteristicValue): Promise<void> {
     try {
-      const data = await this.getDeviceData();
-      if (!data || !data.Mode || !data.Mode.Val) {
-        this.platform.log.warn('Device data not available for target state');
-        // Throw error instead of returning default - let HomeKit show "Not Responding"
-        throw new this.platform.api.hap.HapStatusError(
-          this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-        );
-      }
-      const mode = data.Mode.Val;
-      const value = this.modeMap[mode] ?? 0;
-      this.platform.log.debug(`Get TargetHeatingCoolingState -> ${value} (${mode})`);
-      return value;
+      const enabled = value as boolean;
+      this.platform.log.info(`Set schedule for ${this.deviceName} -> ${enabled ? 'On' : 'Off'}`);
+
+      const apiClient = this.platform.getApiClient();
+      const device = await apiClient.setDeviceScheduleEnabled(this.deviceId, enabled);
+      this.updateCache(device);
     } catch (error: unknown) {
-      if (error instanceof this.platform.api.hap.HapStatusError) {
-        throw error;
-      }
       const err = error as { message?: string };
-      this.platform.log.error('Failed to get target heating cooling state:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+      this.platform.log.error('Failed to set schedule:', err.message || 'Unknown error');
+      throw this.platform.toHapStatusError(error);
+    }
+  }
+
+  /**
+   * Register handlers on the "Following schedule" switch and link it to the thermostat
+   */
+  private setupFollowScheduleService(service: Service): Service {
+    service.setCharacteristic(this.platform.Characteristic.Name, `${this.deviceName} Following Schedule`);
+    service.getCharacteristic(this.platform.Characteristic.On)
+      .onSet(this.setFollowingSchedule.bind(this));
+    this.service.addLinkedService(service);
+    return service;
+  }
+
+  /**
+   * Ensure the "Following schedule" switch exists only for devices with a schedule,
+   * and log when a hold starts or ends (e.g. after a setpoint change from HomeKit)
+   */
+  private updateFollowScheduleSwitch(data: Device['data']) {
+    const description = describeHold(data);
+    if (this.holdDescription !== null && description !== this.holdDescription) {
+      this.platform.log.info(`${this.deviceName}: ${description}`);
+    }
+    this.holdDescription = description;
+
+    const enabled = (this.platform.getDeviceOverride(this.deviceId)?.followScheduleSwitch ??
+      this.platform.config.followScheduleSwitch !== false) && !!data.SchedEnable?.Active;
+
+    if (enabled && !this.followScheduleService) {
+      this.platform.log.info(`Adding "Following schedule" switch for ${this.deviceName}`);
+      this.followScheduleService = this.setupFollowScheduleService(
+        this.accessory.addService(this.platform.Service.Switch, `${this.deviceName} Following Schedule`, FOLLOW_SCHEDULE_SUBTYPE),
       );
+    } else if (!enabled && this.followScheduleService) {
+      this.platform.log.info(`Removing "Following schedule" switch for ${this.deviceName}`);
+      this.service.removeLinkedService(this.followScheduleService);
+      this.accessory.removeService(this.followScheduleService);
+      this.followScheduleService = null;
     }
+
+    this.followScheduleService?.updateCharacteristic(this.platform.Characteristic.On, isFollowingSchedule(data));
   }
 
   /**
-   * Handle "SET" requests for Target Heating Cooling State
+   * Handle "SET" requests for the "Following schedule" switch
+   * On clears any hold and resumes the schedule; Off holds the current setpoints permanently.
+   * The schedule itself is only turned on or off by the Schedule switch.
    */
-  private async setTargetHeatingCoolingState(value: CharacteristicValue): Promise<void> {
+  private async setFollowingSchedule(value: CharacteristicValue): Promise<void> {
     try {
-      const mode = this.modeValueMap[value as number];
-      if (!mode) {
-        throw new Error(`Invalid mode value: ${value}`);
+      const follow = value as boolean;
+      const data = this.cachedDevice?.data ?? this.lastKnownData;
+      if (follow && data?.SchedEnable && data.SchedEnable.Val !== 'On') {
+        throw new WattsValidationError(`${this.deviceName}'s schedule is off; turn it on with the Schedule switch`);
       }
-
-      this.platform.log.info(`Set TargetHeatingCoolingState -> ${value} (${mode})`);
+      this.platform.log.info(`Set ${this.deviceName} -> ${follow ? 'resume schedule' : 'permanent hold'}`);
 
       const apiClient = this.platform.getApiClient();
-      const device = await apiClient.setDeviceMode(this.deviceId, mode);
+      const device = follow
+        ? await apiClient.resumeDeviceSchedule(this.deviceId)
+        : await apiClient.setDeviceHold(this.deviceId);
       this.updateCache(device);
     } catch (error: unknown) {
       const err = error as { message?: string };
-      this.platform.log.error('Failed to set target heating cooling state:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
+      this.platform.log.error('Failed to set hold:', err.message || 'Unknown error');
+      throw this.platform.toHapStatusError(error);
+    }
+  }
+
+  /**
+   * Register handlers on the fan service and link it to the thermostat
+   */
+  private setupFanService(service: Service): Service {
+    service.setCharacteristic(this.platform.Characteristic.Name, `${this.deviceName} Fan`);
+    service.getCharacteristic(this.platform.Characteristic.Active)
+      .onSet(this.setFanActive.bind(this));
+    service.getCharacteristic(this.platform.Characteristic.TargetFanState)
+      .onSet(this.setTargetFanState.bind(this));
+    this.service.addLinkedService(service);
+    return service;
+  }
+
+  /**
+   * Ensure the fan service exists only for devices with a fan relay (hidden on hydronic-only units)
+   */
+  private updateFan(data: Device['data']) {
+    const hasFan = this.platform.getDeviceOverride(this.deviceId)?.fan !== false && !!data.Fan?.Active;
+
+    if (hasFan && !this.fanService) {
+      this.platform.log.info(`Adding fan for ${this.deviceName}`);
+      this.fanService = this.setupFanService(
+        this.accessory.addService(this.platform.Service.Fanv2, `${this.deviceName} Fan`, FAN_SUBTYPE),
       );
+    } else if (!hasFan && this.fanService) {
+      this.platform.log.info(`Removing fan for ${this.deviceName}`);
+      this.service.removeLinkedService(this.fanService);
+      this.accessory.removeService(this.fanService);
+      this.fanService = null;
+    }
+
+    if (!this.fanService) {
+      return;
+    }
+
+    const { ACTIVE, INACTIVE } = this.platform.Characteristic.Active;
+    const { MANUAL, AUTO } = this.platform.Characteristic.TargetFanState;
+    const { IDLE, BLOWING_AIR } = this.platform.Characteristic.CurrentFanState;
+    const running = !!data.Fan.Relay;
+
+    this.fanService.updateCharacteristic(this.platform.Characteristic.Active, running ? ACTIVE : INACTIVE);
+    this.fanService.updateCharacteristic(this.platform.Characteristic.CurrentFanState, running ? BLOWING_AIR : IDLE);
+    if (data.Fan.Val) {
+      this.fanService.updateCharacteristic(this.platform.Characteristic.TargetFanState, data.Fan.Val === 'Auto' ? AUTO : MANUAL);
     }
   }
 
   /**
-   * Handle "GET" requests for Current Temperature
+   * Handle "SET" requests for fan Active
+   * Turning the fan on forces it to run continuously; turning it off hands it back to Auto
    */
-  private async getCurrentTemperature(): Promise<CharacteristicValue> {
+  private async setFanActive(value: CharacteristicValue): Promise<void> {
+    await this.writeFan(value === this.platform.Characteristic.Active.ACTIVE ? 'On' : 'Auto');
+  }
+
+  /**
+   * Handle "SET" requests for TargetFanState (Manual = On, Auto = Auto)
+   */
+  private async setTargetFanState(value: CharacteristicValue): Promise<void> {
+    await this.writeFan(value === this.platform.Characteristic.TargetFanState.AUTO ? 'Auto' : 'On');
+  }
+
+  /**
+   * Write the fan mode and refresh the fan service from the returned device
+   */
+  private async writeFan(fan: 'Auto' | 'On'): Promise<void> {
     try {
-      const data = await this.getDeviceData();
-      if (!data || !data.Sensors || !data.Sensors.Room || typeof data.Sensors.Room.Val !== 'number') {
-        this.platform.log.warn('Device data not available for current temperature');
-        // Throw error instead of returning default - let HomeKit show "Not Responding"
-        throw new this.platform.api.hap.HapStatusError(
-          this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-        );
+      this.platform.log.info(`Set fan for ${this.deviceName} -> ${fan}`);
+
+      const apiClient = this.platform.getApiClient();
+      const device = await apiClient.setDeviceFan(this.deviceId, fan);
+      this.updateCache(device);
+      if (device.data) {
+        this.updateFan(device.data);
       }
-      const temp = data.Sensors.Room.Val;
-      const units = data.TempUnits?.Val || 'C';
-      const tempC = this.convertToCelsius(temp, units);
-      // Don't clamp in getter - HomeKit will validate via props
-      // Clamping happens in updateDeviceStatus() when polling
-      this.platform.log.debug(`Get CurrentTemperature -> ${tempC}°C (${temp}°${units})`);
-      return tempC;
     } catch (error: unknown) {
-      if (error instanceof this.platform.api.hap.HapStatusError) {
-        throw error;
-      }
       const err = error as { message?: string };
-      this.platform.log.error('Failed to get current temperature:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
+      this.platform.log.error('Failed to set fan mode:', err.message || 'Unknown error');
+      throw this.platform.toHapStatusError(error);
+    }
+  }
+
+  /**
+   * Record heating/cooling run-time for Eve and accumulate the device's energy series on disk
+   */
+  private recordHistory(device: Device, data: Device['data'], units: string) {
+    const now = Date.now();
+    if (this.historyService && now - this.lastHistoryEntry >= HISTORY_INTERVAL_MS) {
+      const mode = data.Mode?.Val;
+      const setpoint = mode === 'Cool' ? data.Target?.Cool : data.Target?.Heat;
+      if (isValidReading(data.Sensors?.Room, units) && typeof setpoint === 'number') {
+        this.historyService.addEntry({
+          time: Math.round(now / 1000),
+          currentTemp: this.convertToCelsius(data.Sensors.Room.Val, units),
+          setTemp: this.convertToCelsius(setpoint, units),
+          // Eve charts valve position; report 100% while the zone is calling for heat or cooling
+          valvePosition: data.State?.Op === 'Heating' || data.State?.Op === 'Cooling' ? 100 : 0,
+        });
+        this.lastHistoryEntry = now;
+      }
+    }
+
+    const energyStore = this.platform.getEnergyStore();
+    if (energyStore && data.Energy) {
+      energyStore.record({ ...device, data }).catch((error: unknown) => {
+        const err = error as { message?: string };
+        this.platform.log.warn(`Failed to save energy history for ${this.deviceId}:`, err.message || 'Unknown error');
+      });
     }
   }
 
   /**
-   * Handle "GET" requests for Target Temperature
+   * Handle "SET" requests for Target Heating Cooling State
    */
-  private async getTargetTemperature(): Promise<CharacteristicValue> {
+  private async setTargetHeatingCoolingState(value: CharacteristicValue): Promise<void> {
     try {
-      const data = await this.getDeviceData();
-      if (!data || !data.Mode || !data.Target) {
-        this.platform.log.warn('Device data not available for target temperature');
-        // Throw error instead of returning default - let HomeKit show "Not Responding"
-        throw new this.platform.api.hap.HapStatusError(
-          this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-        );
+      const mode = this.modeValueMap[value as number];
+      if (!mode) {
+        throw new Error(`Invalid mode value: ${value}`);
       }
-      const mode = data.Mode.Val;
-      const units = data.TempUnits?.Val || 'C';
 
-      let temp: number;
-      if (mode === 'Heat') {
-        temp = data.Target.Heat;
-      } else if (mode === 'Cool') {
-        temp = data.Target.Cool;
-      } else {
-        // Auto or Off - use heat threshold as primary target
-        temp = data.Target.Heat;
+      const data = this.cachedDevice?.data ?? this.lastKnownData;
+      if (data && !supportedModes(data).includes(mode)) {
+        throw new WattsValidationError(`${this.deviceName} does not support ${mode} mode`);
       }
 
-      const tempC = this.convertToCelsius(temp, units);
-      // Don't clamp in getter - HomeKit will validate via props
-      // Clamping happens in updateDeviceStatus() when polling
-      this.platform.log.debug(`Get TargetTemperature -> ${tempC}°C (${temp}°${units}, mode: ${mode})`);
-      return tempC;
+      this.platform.log.info(`Set TargetHeatingCoolingState -> ${value} (${mode})`);
+
+      await this.writeSettings({ Mode: mode });
+      // Entering or leaving Auto adds or removes the thresholds; do it now so HomeKit can write them right away
+      await this.updateDeviceStatus();
     } catch (error: unknown) {
-      if (error instanceof this.platform.api.hap.HapStatusError) {
-        throw error;
-      }
       const err = error as { message?: string };
-      this.platform.log.error('Failed to get target temperature:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
+      this.platform.log.error('Failed to set target heating cooling state:', err.message || 'Unknown error');
+      throw this.platform.toHapStatusError(error);
     }
   }
 
@@ -410,72 +919,27 @@ export class TekmarThermostatAccessory {
       const mode = data?.Mode?.Val ?? (characteristicMode !== undefined ? this.modeValueMap[characteristicMode] : undefined);
       const displayUnits = this.service.getCharacteristic(this.platform.Characteristic.TemperatureDisplayUnits).value as number | undefined;
       const units = data?.TempUnits?.Val ?? (displayUnits === 1 ? 'F' : 'C');
-      const temp = this.convertFromCelsius(value as number, units);
+      const temp = this.quantizeSetpoint(this.convertFromCelsius(value as number, units), units, mode === 'Cool' ? 'Cool' : 'Heat');
       if (!mode) {
         throw new Error('Device data not available');
       }
 
       this.platform.log.info(`Set TargetTemperature -> ${value}°C (${temp}°${units}, mode: ${mode})`);
 
-      const apiClient = this.platform.getApiClient();
-      let updatedDevice: Device;
-
       if (mode === 'Heat') {
-        updatedDevice = await apiClient.setDeviceHeatTemp(this.deviceId, temp);
+        await this.writeSettings({ Heat: temp });
       } else if (mode === 'Cool') {
-        updatedDevice = await apiClient.setDeviceCoolTemp(this.deviceId, temp);
+        await this.writeSettings({ Cool: temp });
       } else if (mode === 'Auto') {
-        // In Auto mode, setting target temp should update heat threshold
-        // Need to preserve cool threshold
-        const coolTemp = data?.Target?.Cool ??
-          this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature).value as number | undefined;
-        if (coolTemp === undefined) {
-          throw new Error('Cooling threshold unavailable for Auto mode');
-        }
-        updatedDevice = await apiClient.setDeviceAutoTemps(this.deviceId, temp, coolTemp);
+        // In Auto mode, setting target temp updates the heat threshold; the write queue preserves cool
+        await this.writeSettings(this.withInterlock('Heat', temp, units, data));
       } else {
         throw new Error(`Cannot set temperature in ${mode} mode`);
       }
-
-      this.updateCache(updatedDevice);
     } catch (error: unknown) {
       const err = error as { message?: string };
       this.platform.log.error('Failed to set target temperature:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
-    }
-  }
-
-  /**
-   * Handle "GET" requests for Cooling Threshold Temperature
-   */
-  private async getCoolingThresholdTemperature(): Promise<CharacteristicValue> {
-    try {
-      const data = await this.getDeviceData();
-      if (!data || !data.Target || typeof data.Target.Cool !== 'number') {
-        this.platform.log.warn('Device data not available for cooling threshold');
-        // Throw error instead of returning default - let HomeKit show "Not Responding"
-        throw new this.platform.api.hap.HapStatusError(
-          this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-        );
-      }
-      const temp = data.Target.Cool;
-      const units = data.TempUnits?.Val || 'C';
-      const tempC = this.convertToCelsius(temp, units);
-      // Don't clamp in getter - HomeKit will validate via props
-      // Clamping happens in updateDeviceStatus() when polling
-      this.platform.log.debug(`Get CoolingThresholdTemperature -> ${tempC}°C (${temp}°${units})`);
-      return tempC;
-    } catch (error: unknown) {
-      if (error instanceof this.platform.api.hap.HapStatusError) {
-        throw error;
-      }
-      const err = error as { message?: string };
-      this.platform.log.error('Failed to get cooling threshold temperature:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
+      throw this.platform.toHapStatusError(error);
     }
   }
 
@@ -491,60 +955,20 @@ export class TekmarThermostatAccessory {
       // Clamp the value before setting
       const clampedValue = this.clampTemperature(value as number, 'cooling');
       if (clampedValue !== value) {
-        this.platform.log.warn(`Cooling threshold ${value}°C clamped to ${clampedValue}°C (valid range: 10-35°C)`);
+        const { minValue, maxValue } = this.setpointRange('cooling');
+        this.platform.log.warn(`Cooling threshold ${value}°C clamped to ${clampedValue}°C (valid range: ${minValue}-${maxValue}°C)`);
       }
       const units = data.TempUnits?.Val || 'C';
-      const temp = this.convertFromCelsius(clampedValue, units);
+      const temp = this.quantizeSetpoint(this.convertFromCelsius(clampedValue, units), units, 'Cool');
 
       this.platform.log.info(`Set CoolingThresholdTemperature -> ${clampedValue}°C (${temp}°${units})`);
 
-      const apiClient = this.platform.getApiClient();
-      // In Auto mode, always send both Heat and Cool values
-      const heatTemp = data.Target?.Heat ??
-        this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature).value as number | undefined;
-      if (heatTemp === undefined) {
-        throw new Error('Heating threshold unavailable for Auto mode');
-      }
-      const updatedDevice = await apiClient.setDeviceAutoTemps(this.deviceId, heatTemp, temp);
-      this.updateCache(updatedDevice);
+      // Rapid heat and cool changes are merged into one write; the queue fills in the other value
+      await this.writeSettings(this.withInterlock('Cool', temp, units, data));
     } catch (error: unknown) {
       const err = error as { message?: string };
       this.platform.log.error('Failed to set cooling threshold temperature:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
-    }
-  }
-
-  /**
-   * Handle "GET" requests for Heating Threshold Temperature
-   */
-  private async getHeatingThresholdTemperature(): Promise<CharacteristicValue> {
-    try {
-      const data = await this.getDeviceData();
-      if (!data || !data.Target || typeof data.Target.Heat !== 'number') {
-        this.platform.log.warn('Device data not available for heating threshold');
-        // Throw error instead of returning default - let HomeKit show "Not Responding"
-        throw new this.platform.api.hap.HapStatusError(
-          this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-        );
-      }
-      const temp = data.Target.Heat;
-      const units = data.TempUnits?.Val || 'C';
-      const tempC = this.convertToCelsius(temp, units);
-      // Don't clamp in getter - HomeKit will validate via props
-      // Clamping happens in updateDeviceStatus() when polling
-      this.platform.log.debug(`Get HeatingThresholdTemperature -> ${tempC}°C (${temp}°${units})`);
-      return tempC;
-    } catch (error: unknown) {
-      if (error instanceof this.platform.api.hap.HapStatusError) {
-        throw error;
-      }
-      const err = error as { message?: string };
-      this.platform.log.error('Failed to get heating threshold temperature:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
+      throw this.platform.toHapStatusError(error);
     }
   }
 
@@ -560,77 +984,53 @@ export class TekmarThermostatAccessory {
       // Clamp the value before setting
       const clampedValue = this.clampTemperature(value as number, 'heating');
       if (clampedValue !== value) {
-        this.platform.log.warn(`Heating threshold ${value}°C clamped to ${clampedValue}°C (valid range: 0-25°C)`);
+        const { minValue, maxValue } = this.setpointRange('heating');
+        this.platform.log.warn(`Heating threshold ${value}°C clamped to ${clampedValue}°C (valid range: ${minValue}-${maxValue}°C)`);
       }
       const units = data.TempUnits?.Val || 'C';
-      const temp = this.convertFromCelsius(clampedValue, units);
+      const temp = this.quantizeSetpoint(this.convertFromCelsius(clampedValue, units), units, 'Heat');
 
       this.platform.log.info(`Set HeatingThresholdTemperature -> ${clampedValue}°C (${temp}°${units})`);
 
-      const apiClient = this.platform.getApiClient();
-      // In Auto mode, always send both Heat and Cool values
-      const coolTemp = data.Target?.Cool ??
-        this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature).value as number | undefined;
-      if (coolTemp === undefined) {
-        throw new Error('Cooling threshold unavailable for Auto mode');
-      }
-      const updatedDevice = await apiClient.setDeviceAutoTemps(this.deviceId, temp, coolTemp);
-      this.updateCache(updatedDevice);
+      // Rapid heat and cool changes are merged into one write; the queue fills in the other value
+      await this.writeSettings(this.withInterlock('Heat', temp, units, data));
     } catch (error: unknown) {
       const err = error as { message?: string };
       this.platform.log.error('Failed to set heating threshold temperature:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
+      throw this.platform.toHapStatusError(error);
     }
   }
 
   /**
-   * Handle "GET" requests for Temperature Display Units
-   */
-  private async getTemperatureDisplayUnits(): Promise<CharacteristicValue> {
-    try {
-      const data = await this.getDeviceData();
-      if (!data || !data.TempUnits || !data.TempUnits.Val) {
-        this.platform.log.warn('Device data not available for temperature units');
-        // Throw error instead of returning default - let HomeKit show "Not Responding"
-        throw new this.platform.api.hap.HapStatusError(
-          this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-        );
-      }
-      const units = data.TempUnits.Val;
-      // HomeKit: 0 = Celsius, 1 = Fahrenheit
-      const value = units === 'C' ? 0 : 1;
-      this.platform.log.debug(`Get TemperatureDisplayUnits -> ${value} (${units})`);
-      return value;
-    } catch (error: unknown) {
-      if (error instanceof this.platform.api.hap.HapStatusError) {
-        throw error;
-      }
-      const err = error as { message?: string };
-      this.platform.log.error('Failed to get temperature display units:', err.message || 'Unknown error');
-      throw new this.platform.api.hap.HapStatusError(
-        this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE,
-      );
-    }
-  }
-
-  /**
-   * Start polling for device status updates
+   * Subscribe to device status updates from the platform's shared poller
    */
   private startPolling() {
-    const interval = this.platform.getPollingInterval() * 1000; // Convert to milliseconds
-
-    this.pollInterval = setInterval(async () => {
-      try {
-        await this.updateDeviceStatus();
-      } catch (error: unknown) {
+    this.platform.getPoller().register(
+      this.deviceId,
+      this.locationId,
+      (device) => {
+        this.failedPolls = 0;
+        this.setOnline(device.isConnected !== false, 'device reports it is disconnected');
+        // Seed the cache so updateDeviceStatus() uses this result instead of fetching again
+        this.updateCache(device);
+        this.updateDeviceStatus();
+      },
+      (error) => {
+        this.failedPolls++;
         const err = error as { message?: string };
-        this.platform.log.error(`Failed to poll device ${this.deviceId}:`, err.message || 'Unknown error');
-      }
-    }, interval);
+        if (this.online) {
+          this.platform.log.error(`Failed to poll device ${this.deviceId}:`, err.message || 'Unknown error');
+        } else {
+          this.platform.log.debug(`Failed to poll offline device ${this.deviceId}:`, err.message || 'Unknown error');
+        }
+        if (this.failedPolls >= this.platform.getOfflineThreshold()) {
+          this.setOnline(false, `${this.failedPolls} consecutive polls failed`);
+        }
+      },
+      this.platform.getDeviceOverride(this.deviceId)?.pollingInterval,
+    );
 
-    this.platform.log.debug(`Started polling for device ${this.deviceId} (interval: ${interval}ms)`);
+    this.platform.log.debug(`Registered device ${this.deviceId} with shared poller`);
   }
 
   /**
@@ -673,12 +1073,17 @@ export class TekmarThermostatAccessory {
       if (data.Mode?.Val) {
         mode = this.modeMap[data.Mode.Val] ?? 0;
       }
-      this.ensureThresholdCharacteristics(data.Mode?.Val);
+      this.updateSetpointLimits(data);
+      this.updateModeCapabilities(data);
+      // Heat-only units never get the Auto thresholds
+      this.ensureThresholdCharacteristics(canCool(data) ? data.Mode?.Val : undefined);
 
+      // Faulty or implausible room readings are dropped, leaving the last good value
       let currentTemp: number | undefined;
-      if (data.Sensors?.Room?.Val !== undefined && typeof data.Sensors.Room.Val === 'number') {
+      if (this.checkSensor('Room', data.Sensors?.Room, units)) {
         currentTemp = this.convertToCelsius(data.Sensors.Room.Val, units);
       }
+      this.updateStatusFault();
 
       let targetTemp: number | undefined;
       if (data.Mode?.Val === 'Heat' && data.Target?.Heat !== undefined) {
@@ -699,10 +1104,8 @@ export class TekmarThermostatAccessory {
         : 25;
 
       // Clamp to valid ranges (like tado does in lines 223-227, 236-240)
-      const heatMin = this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature).props.minValue || 0;
-      const heatMax = this.service.getCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature).props.maxValue || 25;
-      const coolMin = this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature).props.minValue || 10;
-      const coolMax = this.service.getCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature).props.maxValue || 35;
+      const { minValue: heatMin, maxValue: heatMax } = this.setpointRange('heating');
+      const { minValue: coolMin, maxValue: coolMax } = this.setpointRange('cooling');
 
       if (heatThreshold < heatMin || heatThreshold > heatMax) {
         const oldValue = heatThreshold;
@@ -750,14 +1153,15 @@ export class TekmarThermostatAccessory {
         );
       }
 
-      if (!isNaN(heatThreshold)) {
+      // Thresholds only exist in Auto mode; updating a missing one would add it without a write handler
+      if (!isNaN(heatThreshold) && this.service.testCharacteristic(this.platform.Characteristic.HeatingThresholdTemperature)) {
         this.service.updateCharacteristic(
           this.platform.Characteristic.HeatingThresholdTemperature,
           heatThreshold,
         );
       }
 
-      if (!isNaN(coolThreshold)) {
+      if (!isNaN(coolThreshold) && this.service.testCharacteristic(this.platform.Characteristic.CoolingThresholdTemperature)) {
         this.service.updateCharacteristic(
           this.platform.Characteristic.CoolingThresholdTemperature,
           coolThreshold,
@@ -770,6 +1174,40 @@ export class TekmarThermostatAccessory {
         displayUnits,
       );
 
+      // Floor sensor is exposed as a linked TemperatureSensor service
+      this.updateFloorSensor(data, units);
+
+      // Floor minimum and away temperature are exposed as linked heat-only Thermostat services
+      this.updateFloorSetpoints(data);
+
+      // Schedule enable/disable is exposed as a linked Switch service
+      this.updateScheduleSwitch(data);
+
+      // Hold state is exposed as a linked "Following schedule" Switch service
+      this.updateFollowScheduleSwitch(data);
+
+      // Fan mode is exposed as a linked Fanv2 service on forced-air units
+      this.updateFan(data);
+
+      // Eve history and persisted energy usage
+      this.recordHistory(device, data, units);
+
+      // Outdoor sensor is shared per location, so hand it to the platform
+      if (this.locationId) {
+        const outdoor = data.Sensors?.Outdoor;
+        this.checkSensor('Outdoor', outdoor, units);
+        this.platform.reportOutdoorReading(
+          this.locationId,
+          this.deviceId,
+          outdoor && typeof outdoor.Val === 'number'
+            ? { temperature: this.convertToCelsius(outdoor.Val, units), status: outdoor.Status }
+            : null,
+        );
+      }
+
+      // The updates above answer reads again; keep them failing while the device is offline
+      this.updateReachability();
+
       this.platform.log.debug(`Updated characteristics for device ${this.deviceId}`);
     } catch (error: unknown) {
       const err = error as { message?: string };
@@ -778,13 +1216,122 @@ export class TekmarThermostatAccessory {
   }
 
   /**
-   * Clean up polling interval when accessory is removed
+   * Track connectivity, logging each transition once
+   * While offline, StatusFault is set and reads fail so HomeKit shows "No Response"
    */
-  public destroy() {
-    if (this.pollInterval) {
-      clearInterval(this.pollInterval);
-      this.pollInterval = null;
-      this.platform.log.debug(`Stopped polling for device ${this.deviceId}`);
+  private setOnline(online: boolean, reason: string) {
+    if (online !== this.online) {
+      this.online = online;
+      if (online) {
+        this.platform.log.info(`${this.deviceName} (${this.deviceId}) is back online`);
+      } else {
+        this.platform.log.warn(`${this.deviceName} (${this.deviceId}) is offline: ${reason}`);
+      }
     }
+
+    this.updateStatusFault();
+    this.updateReachability();
+  }
+
+  /**
+   * Thermostat StatusFault: set while the device is offline or its room sensor is faulty
+   */
+  private updateStatusFault() {
+    const { NO_FAULT, GENERAL_FAULT } = this.platform.Characteristic.StatusFault;
+    const fault = !this.online || this.sensorProblems.has('Room');
+    this.service.updateCharacteristic(this.platform.Characteristic.StatusFault, fault ? GENERAL_FAULT : NO_FAULT);
+  }
+
+  /**
+   * Check a sensor's status and reading, logging when it starts or stops reporting a problem
+   * Returns whether the reading can be used
+   */
+  private checkSensor(name: 'Room' | 'Floor' | 'Outdoor', sensor: SensorReading | undefined, units: string): boolean {
+    if (!sensor) {
+      this.sensorProblems.delete(name);
+      return false;
+    }
+    const problem = sensorProblem(sensor, units);
+    const previous = this.sensorProblems.get(name);
+    if (problem && problem !== previous) {
+      this.platform.log.warn(`${name} sensor on ${this.deviceName} (${this.deviceId}): ${problem}; ignoring its readings`);
+      this.sensorProblems.set(name, problem);
+    } else if (!problem && previous) {
+      this.platform.log.info(`${name} sensor on ${this.deviceName} (${this.deviceId}) is reporting normally again`);
+      this.sensorProblems.delete(name);
+    }
+    return !problem;
+  }
+
+  /**
+   * Fail HomeKit reads of the thermostat's state while the device is offline, instead of serving stale
+   * values as live, and answer them again once it is back. Reads are served from the characteristic
+   * values (no onGet), and any value update clears the error, so this runs after every refresh.
+   */
+  private updateReachability() {
+    const {
+      CurrentHeatingCoolingState, TargetHeatingCoolingState, CurrentTemperature, TargetTemperature,
+      TemperatureDisplayUnits, CoolingThresholdTemperature, HeatingThresholdTemperature,
+    } = this.platform.Characteristic;
+    const characteristics = [
+      CurrentHeatingCoolingState, TargetHeatingCoolingState, CurrentTemperature, TargetTemperature,
+      TemperatureDisplayUnits, CoolingThresholdTemperature, HeatingThresholdTemperature,
+    ]
+      .filter(characteristic => this.service.testCharacteristic(characteristic))
+      .map(characteristic => this.service.getCharacteristic(characteristic));
+
+    if (!this.online) {
+      const error = new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      characteristics.forEach(characteristic => characteristic.updateValue(error));
+    } else if (this.readsFailing) {
+      characteristics
+        .filter(characteristic => characteristic.value !== null)
+        .forEach(characteristic => characteristic.updateValue(characteristic.value));
+    }
+    this.readsFailing = !this.online;
+  }
+
+  /**
+   * Apply a rename or location move picked up by re-discovery
+   */
+  public updateDevice(device: DeviceSummary, name: string, locationId: string) {
+    if (name !== this.deviceName) {
+      this.deviceName = name;
+      this.accessory.updateDisplayName(name);
+      this.updateServiceNames();
+    }
+    this.accessory.context.device = device;
+    this.accessory.context.locationId = locationId;
+    if (locationId !== this.locationId) {
+      // The poller schedules devices per location, so register again under the new one
+      this.locationId = locationId;
+      this.platform.getPoller().unregister(this.deviceId);
+      this.startPolling();
+    }
+  }
+
+  /**
+   * Name every service this accessory created after the device's name
+   */
+  private updateServiceNames() {
+    const { Name } = this.platform.Characteristic;
+    // updateDisplayName doesn't rename the accessory information service
+    this.accessory.getService(this.platform.Service.AccessoryInformation)?.updateCharacteristic(Name, this.deviceName);
+    this.service.updateCharacteristic(Name, this.deviceName);
+    this.floorService?.updateCharacteristic(Name, `${this.deviceName} Floor`);
+    for (const [setpoint, handler] of this.floorSetpoints) {
+      handler.getService().updateCharacteristic(Name, this.floorSetpointName(setpoint));
+    }
+    this.scheduleService?.updateCharacteristic(Name, `${this.deviceName} Schedule`);
+    this.followScheduleService?.updateCharacteristic(Name, `${this.deviceName} Following Schedule`);
+    this.fanService?.updateCharacteristic(Name, `${this.deviceName} Fan`);
+  }
+
+  /**
+   * Stop receiving poll updates when accessory is removed
+   */
+  public destroy() {
+    this.platform.getPoller().unregister(this.deviceId);
+    this.platform.log.debug(`Stopped polling for device ${this.deviceId}`);
   }
 }
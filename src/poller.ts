@@ -0,0 +1,367 @@
+import { EventEmitter } from 'events';
+import type { Logging } from 'homebridge';
+
+import type { WattsApiClient } from './lib/api/client.js';
+import type { Device, Location } from './types/api.js';
+
+const MAX_STAGGER_MS = 1000;
+const MAX_BACKOFF_MULTIPLIER = 8;
+const MIN_TICK_MS = 1000;
+
+/**
+ * Polling intervals, all in seconds
+ */
+export interface PollingOptions {
+  interval: number; // Normal interval
+  adaptive: boolean; // When false, only `interval` is used
+  burstInterval: number; // Used for `burstWindow` seconds after a write
+  burstWindow: number;
+  activeInterval: number; // Used while any zone in the location is Heating/Cooling
+  idleInterval: number; // Used while the location is Away or every zone is Off
+}
+
+/**
+ * Listener for device updates
+ */
+export type DeviceListener = (device: Device) => void;
+
+/**
+ * Listener for device poll failures
+ */
+export type DeviceErrorListener = (error: unknown) => void;
+
+interface DeviceState {
+  locationId: string;
+  interval?: number; // Per-device override of the location's interval, in seconds
+  nextPollAt: number;
+  op?: string;
+  mode?: string;
+}
+
+interface LocationState {
+  nextPollAt: number;
+  burstUntil: number;
+  away: boolean;
+}
+
+/**
+ * Device Poller
+ * A single scheduler shared by all accessories. Each location is polled on its own
+ * schedule: every registered device in it is fetched, spacing requests out so they
+ * don't all hit the API at once, and results are fanned out as `device:<id>` /
+ * `error:<id>` events. With adaptive polling the interval shortens after writes and
+ * while zones are running, and lengthens while the location is Away or switched off.
+ * When the API answers 429 or 5xx the rest of the cycle is skipped and later polls
+ * are delayed with exponential backoff.
+ */
+export class DevicePoller extends EventEmitter {
+  private readonly devices: Map<string, DeviceState> = new Map();
+  private readonly locations: Map<string, LocationState> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private nextTickAt = 0;
+  private nextLocationsPollAt = 0;
+  private running = false;
+  private ticking = false;
+  private backoffMultiplier = 1;
+
+  constructor(
+    private readonly apiClient: WattsApiClient,
+    private readonly log: Logging,
+    private readonly options: PollingOptions,
+  ) {
+    super();
+    // One listener per accessory, so lift the default limit of 10
+    this.setMaxListeners(0);
+
+    // Writes made through the client start a burst of faster polls for that location
+    this.apiClient.onDeviceUpdated((device) => this.handleWrite(device));
+    this.apiClient.onLocationUpdated((location) => this.setAway(location.locationId, location.awayState !== 0));
+  }
+
+  /**
+   * Register a device and subscribe to its updates
+   * `interval` (seconds) overrides the location's interval for this device, except during a burst
+   */
+  register(deviceId: string, locationId: string | undefined, onUpdate: DeviceListener, onError: DeviceErrorListener, interval?: number) {
+    const location = locationId ?? '';
+    this.devices.set(deviceId, { locationId: location, interval, nextPollAt: Date.now() });
+    if (!this.locations.has(location)) {
+      this.locations.set(location, { nextPollAt: Date.now(), burstUntil: 0, away: false });
+    }
+    this.on(`device:${deviceId}`, onUpdate);
+    this.on(`error:${deviceId}`, onError);
+
+    // Devices added after polling started get their first update right away
+    if (this.running) {
+      this.pollDevice(deviceId).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Stop polling a device and drop its subscriptions
+   */
+  unregister(deviceId: string) {
+    this.devices.delete(deviceId);
+    this.removeAllListeners(`device:${deviceId}`);
+    this.removeAllListeners(`error:${deviceId}`);
+  }
+
+  /**
+   * Start polling; the first cycle runs immediately
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.log.debug(`Started shared polling for ${this.devices.size} device(s) (interval: ${this.options.interval}s)`);
+    this.scheduleTick(Date.now());
+  }
+
+  /**
+   * Stop polling
+   */
+  stop() {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Make sure a tick happens no later than `at`
+   */
+  private scheduleTick(at: number) {
+    if (!this.running || this.ticking) {
+      // A running tick schedules the next one when it finishes
+      return;
+    }
+    if (this.timer && this.nextTickAt <= at) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.nextTickAt = at;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.tick();
+    }, Math.max(0, at - Date.now()));
+  }
+
+  /**
+   * Poll every location that is due, then schedule the next tick
+   */
+  private async tick() {
+    this.ticking = true;
+    try {
+      await this.runCycle();
+    } finally {
+      this.ticking = false;
+    }
+
+    let next = Infinity;
+    for (const [locationId, state] of this.locations) {
+      if (this.hasDevices(locationId)) {
+        next = Math.min(next, state.nextPollAt);
+      }
+    }
+    if (next === Infinity) {
+      next = Date.now() + this.options.interval * 1000;
+    }
+    this.scheduleTick(Math.max(next, Date.now() + MIN_TICK_MS));
+  }
+
+  /**
+   * Poll locations (when anyone is listening) and the devices of every due location
+   */
+  private async runCycle() {
+    const now = Date.now();
+    try {
+      if (this.listenerCount('locations') > 0 && now >= this.nextLocationsPollAt) {
+        this.nextLocationsPollAt = now + this.options.interval * 1000 * this.backoffMultiplier;
+        try {
+          const locations: Location[] = await this.apiClient.getLocations();
+          for (const location of locations) {
+            this.setAway(location.locationId, location.awayState !== 0);
+          }
+          this.emit('locations', locations);
+        } catch (error: unknown) {
+          if (this.isThrottled(error)) {
+            throw error;
+          }
+          const err = error as { message?: string };
+          this.log.error('Failed to poll locations:', err.message || 'Unknown error');
+        }
+      }
+
+      // Spread requests across the interval, but never more than MAX_STAGGER_MS apart
+      const stagger = Math.min(MAX_STAGGER_MS, (this.options.interval * 1000) / (this.devices.size + 1));
+      let first = true;
+      let succeeded = 0;
+      const due: Array<[string, LocationState, DeviceState[]]> = [];
+
+      for (const [locationId, state] of this.locations) {
+        if (state.nextPollAt > now || !this.hasDevices(locationId)) {
+          continue;
+        }
+
+        const polled: DeviceState[] = [];
+        for (const [deviceId, device] of this.devices) {
+          // Devices with their own, slower interval sit out cycles until they are due
+          if (device.locationId !== locationId || !this.running || device.nextPollAt > now + MIN_TICK_MS) {
+            continue;
+          }
+          if (!first) {
+            await new Promise(resolve => setTimeout(resolve, stagger));
+          }
+          first = false;
+          if (await this.pollDevice(deviceId)) {
+            succeeded++;
+          }
+          polled.push(device);
+        }
+        due.push([locationId, state, polled]);
+      }
+
+      // Only a whole cycle without throttling, in which some device was actually read, ends the backoff
+      if (succeeded > 0 && this.backoffMultiplier !== 1) {
+        this.log.info('Watts API recovered; resuming normal polling');
+        this.backoffMultiplier = 1;
+      }
+
+      for (const [locationId, state, polled] of due) {
+        const interval = this.intervalFor(locationId);
+        const bursting = this.options.adaptive && Date.now() < state.burstUntil;
+        for (const device of polled) {
+          const deviceInterval = bursting ? interval : device.interval ?? interval;
+          device.nextPollAt = Date.now() + deviceInterval * 1000 * this.backoffMultiplier;
+        }
+        state.nextPollAt = Math.min(...[...this.devices.values()]
+          .filter(device => device.locationId === locationId)
+          .map(device => device.nextPollAt));
+        this.log.debug(`Next poll for location ${locationId || '(unknown)'} in ${Math.round((state.nextPollAt - Date.now()) / 1000)}s`);
+      }
+    } catch (error: unknown) {
+      const err = error as { message?: string };
+      if (this.isThrottled(error)) {
+        this.backoffMultiplier = Math.min(MAX_BACKOFF_MULTIPLIER, this.backoffMultiplier * 2);
+        // Wait at least as long as the API asks to (Retry-After)
+        const retryAfter = (error as { retryAfter?: number }).retryAfter ?? 0;
+        const delay = Math.max(this.options.interval * this.backoffMultiplier, Math.ceil(retryAfter));
+        for (const state of this.locations.values()) {
+          state.nextPollAt = Math.max(state.nextPollAt, Date.now() + delay * 1000);
+        }
+        this.log.warn(`Watts API is throttling or unavailable (${err.message || 'Unknown error'}); next poll in ${delay}s`);
+      } else {
+        this.log.error('Polling cycle failed:', err.message || 'Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Fetch one device and notify its subscribers, returning whether it was read
+   * Throttling errors are rethrown so the cycle can back off; others go to the device's error listeners
+   */
+  private async pollDevice(deviceId: string): Promise<boolean> {
+    try {
+      const device = await this.apiClient.getDevice(deviceId);
+      this.recordState(device);
+      this.emit(`device:${deviceId}`, device);
+      return true;
+    } catch (error: unknown) {
+      if (this.isThrottled(error)) {
+        throw error;
+      }
+      this.emit(`error:${deviceId}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Choose the polling interval (seconds) for a location from its current state
+   */
+  private intervalFor(locationId: string): number {
+    const { interval, adaptive, burstInterval, activeInterval, idleInterval } = this.options;
+    if (!adaptive) {
+      return interval;
+    }
+
+    const state = this.locations.get(locationId);
+    if (state && Date.now() < state.burstUntil) {
+      return burstInterval;
+    }
+
+    const devices = [...this.devices.values()].filter(device => device.locationId === locationId);
+    if (devices.some(device => device.op === 'Heating' || device.op === 'Cooling')) {
+      return activeInterval;
+    }
+    if (state?.away || (devices.length > 0 && devices.every(device => device.mode === 'Off'))) {
+      return idleInterval;
+    }
+    return interval;
+  }
+
+  /**
+   * Remember the state that drives adaptive polling
+   */
+  private recordState(device: Device) {
+    const state = this.devices.get(device.deviceId);
+    if (!state) {
+      return;
+    }
+    state.op = device.data?.State?.Op;
+    state.mode = device.data?.Mode?.Val;
+    if (typeof device.location?.awayState === 'number') {
+      this.setAway(state.locationId, device.location.awayState !== 0);
+    }
+  }
+
+  /**
+   * After a device write, poll its location every burstInterval for burstWindow seconds
+   */
+  private handleWrite(device: Device) {
+    this.recordState(device);
+    const locationId = this.devices.get(device.deviceId)?.locationId;
+    const state = locationId !== undefined ? this.locations.get(locationId) : undefined;
+    if (!this.options.adaptive || !state) {
+      return;
+    }
+
+    const now = Date.now();
+    const burstPollAt = now + this.options.burstInterval * 1000;
+    state.burstUntil = now + this.options.burstWindow * 1000;
+    state.nextPollAt = Math.min(state.nextPollAt, burstPollAt);
+    for (const other of this.devices.values()) {
+      if (other.locationId === locationId) {
+        other.nextPollAt = Math.min(other.nextPollAt, burstPollAt);
+      }
+    }
+    this.scheduleTick(state.nextPollAt);
+  }
+
+  private setAway(locationId: string, away: boolean) {
+    const state = this.locations.get(locationId);
+    if (state) {
+      state.away = away;
+    }
+  }
+
+  private hasDevices(locationId: string): boolean {
+    for (const device of this.devices.values()) {
+      if (device.locationId === locationId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Whether an error means the API wants us to slow down (429) or is failing (5xx)
+   */
+  private isThrottled(error: unknown): boolean {
+    const status = (error as { status?: number })?.status;
+    return status === 429 || (status !== undefined && status >= 500);
+  }
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+interface MissingAccessory {
+  name: string;
+  count: number; // Consecutive successful discoveries the accessory was missing from
+  since: string; // ISO 8601, first discovery it was missing from
+}
+
+/**
+ * Accessory Removal Tracker
+ * Counts how many successful discoveries in a row each accessory has been missing from,
+ * persisted in the plugin storage directory so the count survives Homebridge restarts.
+ * An accessory is only removed once the count reaches the grace period.
+ */
+export class AccessoryRemovalTracker {
+  private missing: Record<string, MissingAccessory> = {};
+  private readonly file: string;
+  private dirty = false;
+
+  constructor(
+    storagePath: string,
+    private readonly gracePeriod: number,
+  ) {
+    this.file = path.join(storagePath, 'missing-accessories.json');
+  }
+
+  /**
+   * Load persisted counts; a missing or unreadable file starts from scratch
+   */
+  async load(): Promise<void> {
+    try {
+      this.missing = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+    } catch {
+      this.missing = {};
+    }
+  }
+
+  /**
+   * Record that an accessory was found again
+   */
+  markPresent(uuid: string) {
+    if (this.missing[uuid]) {
+      delete this.missing[uuid];
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Record that an accessory was missing from a successful discovery
+   * Returns the number of consecutive discoveries it has been missing from
+   */
+  markMissing(uuid: string, name: string): number {
+    const entry = this.missing[uuid] ?? { name, count: 0, since: new Date().toISOString() };
+    entry.count++;
+    this.missing[uuid] = entry;
+    this.dirty = true;
+    return entry.count;
+  }
+
+  /**
+   * Whether an accessory has been missing long enough to remove
+   */
+  shouldRemove(uuid: string): boolean {
+    return (this.missing[uuid]?.count ?? 0) >= this.gracePeriod;
+  }
+
+  /**
+   * Forget an accessory once it has been removed
+   */
+  forget(uuid: string) {
+    this.markPresent(uuid);
+  }
+
+  /**
+   * Write counts to disk if they changed
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.writeFile(this.file, JSON.stringify(this.missing, null, 2));
+    this.dirty = false;
+  }
+}
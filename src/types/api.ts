@@ -93,10 +93,15 @@ export interface DeviceSummary {
   isShared: boolean;
 }
 
+export interface SensorReading {
+  Val: number;
+  Status: string; // "Okay" when the probe is working
+}
+
 export interface DeviceSensors {
-  Room: { Val: number; Status: string };
-  Floor?: { Val: number; Status: string };
-  Outdoor?: { Val: number; Status: string };
+  Room: SensorReading;
+  Floor?: SensorReading;
+  Outdoor?: SensorReading;
 }
 
 export interface DeviceState {
@@ -105,15 +110,16 @@ export interface DeviceState {
 }
 
 export interface DeviceMode {
-  Active: number;
+  Active: number; // 0 = mode can't be changed remotely
   Val: 'Off' | 'Heat' | 'Cool' | 'Auto';
-  Enum: ['Off', 'Heat', 'Cool', 'Auto'];
+  Enum: Array<'Off' | 'Heat' | 'Cool' | 'Auto'>; // Modes the device offers (heat-only units omit Cool and Auto)
 }
 
 export interface DeviceTarget {
   Active: number;
   Sensor: string;
-  Hold: number;
+  Hold: number; // 0 = following the schedule, 1 = permanent hold, 2 = timed hold (1 and 2 unverified, see lib/hold.ts)
+  HoldUntil?: string | null; // End of a timed hold (ISO 8601); null = until the next schedule event
   Heat: number;
   Cool: number;
   Min: number;
@@ -134,20 +140,36 @@ export interface DeviceTempUnits {
   Enum: ['F', 'C'];
 }
 
-export interface DeviceSchedule {
+// Schedule Types
+export type ScheduleGroupKey = 'Grp1' | 'Grp2' | 'Grp3' | 'Grp4' | 'Grp5' | 'Grp6' | 'Grp7';
+
+export interface ScheduleEvent {
+  Time: number; // Minutes after midnight, in Schedule.TimeSteps increments
+  Heat: number; // Heat setpoint in device units
+  Cool: number; // Cool setpoint in device units
+}
+
+export type ScheduleGroup = ScheduleEvent[];
+
+// The weekly program: Grp maps each day (Sunday first) to one of Grp1..Grp7,
+// and Event names the events that make up each group (e.g. Wake, Away, Home, Sleep)
+export interface WeeklySchedule {
+  Grp: number[] | null;
+  Event: string[] | null;
+  Grp1?: ScheduleGroup;
+  Grp2?: ScheduleGroup;
+  Grp3?: ScheduleGroup;
+  Grp4?: ScheduleGroup;
+  Grp5?: ScheduleGroup;
+  Grp6?: ScheduleGroup;
+  Grp7?: ScheduleGroup;
+}
+
+export interface DeviceSchedule extends WeeklySchedule {
   SchedActive: number;
   HeatActive: number;
   CoolActive: number;
   FloorActive: number;
-  Grp: unknown;
-  Event: unknown;
-  Grp1?: unknown;
-  Grp2?: unknown;
-  Grp3?: unknown;
-  Grp4?: unknown;
-  Grp5?: unknown;
-  Grp6?: unknown;
-  Grp7?: unknown;
   Floor: {
     W: number; // Floor minimum temp (W = "Warm"?)
     A: number; // Away temp (0 = not set)
@@ -205,7 +227,10 @@ export interface DeviceSettings {
   Heat?: number;
   Cool?: number;
   Fan?: 'Auto' | 'On';
-  Schedule?: {
+  SchedEnable?: 'Off' | 'On';
+  Hold?: number; // See DeviceTarget.Hold
+  HoldUntil?: string | null;
+  Schedule?: Partial<WeeklySchedule> & {
     Floor?: {
       W?: number; // Floor minimum temp
       A?: number; // Away temp (0 to unset)
@@ -0,0 +1,37 @@
+/**
+ * Minimal type definitions for fakegato-history (Eve app history)
+ */
+
+declare module 'fakegato-history' {
+  import type { API, Logging, PlatformAccessory, Service } from 'homebridge';
+
+  export interface FakeGatoHistoryOptions {
+    storage?: 'fs';
+    path?: string;
+    filename?: string;
+    size?: number;
+    minutes?: number;
+    disableTimer?: boolean;
+    disableRepeatLastData?: boolean;
+    log?: Logging;
+  }
+
+  export interface FakeGatoThermoEntry {
+    time: number; // Unix time in seconds
+    currentTemp: number;
+    setTemp: number;
+    valvePosition: number; // 0-100
+  }
+
+  export interface FakeGatoHistoryService extends Service {
+    addEntry(entry: FakeGatoThermoEntry): void;
+  }
+
+  export type FakeGatoHistoryServiceConstructor = new (
+    type: 'thermo',
+    accessory: PlatformAccessory,
+    options?: FakeGatoHistoryOptions,
+  ) => FakeGatoHistoryService;
+
+  export default function fakegato(api: API): FakeGatoHistoryServiceConstructor;
+}
@@ -0,0 +1,102 @@
+import type { WattsApiClient } from './lib/api/client.js';
+import type { Device, DeviceSettings } from './types/api.js';
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+interface Waiter {
+  resolve: (device: Device) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Merge two settings objects; fields in `next` win, nested Schedule.Floor is merged field by field
+ */
+function mergeSettings(current: DeviceSettings, next: DeviceSettings): DeviceSettings {
+  const merged: DeviceSettings = { ...current, ...next };
+  if (current.Schedule || next.Schedule) {
+    merged.Schedule = { ...current.Schedule, ...next.Schedule };
+    if (current.Schedule?.Floor || next.Schedule?.Floor) {
+      merged.Schedule.Floor = { ...current.Schedule?.Floor, ...next.Schedule?.Floor };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Device Write Queue
+ * Collects rapid setting changes for one device (e.g. dragging a slider in the Home app),
+ * waits until they settle, and sends them as a single PATCH. Writes are serialized: changes
+ * made while a PATCH is in flight are held for the next one. Every caller waiting on a
+ * batch is resolved with the device state the API returns for that batch.
+ */
+export class DeviceWriteQueue {
+  private pending: DeviceSettings | null = null;
+  private waiters: Waiter[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  constructor(
+    private readonly apiClient: WattsApiClient,
+    private readonly deviceId: string,
+    // Called just before sending, to complete the merged settings (e.g. fill in the other Auto threshold)
+    private readonly prepare: (settings: DeviceSettings) => DeviceSettings = (settings) => settings,
+    private readonly debounceMs = DEFAULT_DEBOUNCE_MS,
+  ) {}
+
+  /**
+   * Queue settings to write; resolves with the device state once they have been sent
+   */
+  enqueue(settings: DeviceSettings): Promise<Device> {
+    this.pending = mergeSettings(this.pending ?? {}, settings);
+
+    const result = new Promise<Device>((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+
+    // Restart the debounce window on every change
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flush();
+    }, this.debounceMs);
+
+    return result;
+  }
+
+  /**
+   * Send the pending batch, after any write already in flight
+   */
+  private async flush() {
+    if (this.inFlight) {
+      // The in-flight write flushes again when it finishes
+      return;
+    }
+    if (!this.pending) {
+      return;
+    }
+
+    const settings = this.prepare(this.pending);
+    const waiters = this.waiters;
+    this.pending = null;
+    this.waiters = [];
+
+    this.inFlight = (async () => {
+      try {
+        const device = await this.apiClient.updateDevice(this.deviceId, settings);
+        waiters.forEach(waiter => waiter.resolve(device));
+      } catch (error: unknown) {
+        waiters.forEach(waiter => waiter.reject(error));
+      }
+    })();
+
+    await this.inFlight;
+    this.inFlight = null;
+
+    // Changes queued while we were writing go out once their own debounce has settled
+    if (this.pending && !this.timer) {
+      this.flush();
+    }
+  }
+}
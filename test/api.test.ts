@@ -0,0 +1,218 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { FakeWattsServer } from '../src/fakeServer/fakeWattsServer.js';
+import { WattsAuth } from '../src/lib/api/auth.js';
+import { WattsApiClient } from '../src/lib/api/client.js';
+import { WattsAuthError, WattsRateLimitError, WattsServerError, WattsValidationError } from '../src/lib/api/errors.js';
+import { FileTokenStore, MemoryTokenStore } from '../src/lib/tokenStore.js';
+import { startServer, tempDir } from './harness.js';
+
+describe('WattsAuth and WattsApiClient against the fake server', () => {
+  let server: FakeWattsServer;
+  let auth: WattsAuth;
+  let api: WattsApiClient;
+
+  beforeEach(async () => {
+    server = await startServer();
+    auth = new WattsAuth(undefined, new MemoryTokenStore(), server.loginBase);
+    api = new WattsApiClient(auth, server.apiBase);
+  });
+
+  afterEach(async () => {
+    auth.stopBackgroundRefresh();
+    await server.stop();
+  });
+
+  it('logs in through the B2C flow and reads the account', async () => {
+    await auth.login(server.fixture.email, server.fixture.password);
+
+    const user = await api.getUser();
+    const locations = await api.getLocations();
+    const devices = await api.getLocationDevices('loc-home');
+
+    expect(user.emailAddress).toBe('test@example.com');
+    expect(locations.map(location => location.name)).toEqual(['Home', 'Lake Cabin']);
+    expect(devices.map(device => device.deviceId)).toEqual(['dev-living', 'dev-bath', 'dev-basement']);
+    expect(server.stats.logins).toBe(1);
+  });
+
+  it('rejects a wrong password', async () => {
+    await expect(auth.login(server.fixture.email, 'wrong')).rejects.toBeInstanceOf(WattsAuthError);
+  });
+
+  it('stores tokens encrypted in the token file', async () => {
+    const dir = await tempDir();
+    try {
+      const fileAuth = new WattsAuth(dir, undefined, server.loginBase);
+      await fileAuth.login(server.fixture.email, server.fixture.password);
+
+      const stored = await fs.readFile(path.join(dir, 'homebridge-tekmar-wifi', 'tokens.json'), 'utf-8');
+      expect(stored).not.toContain('access_token');
+      expect(await new WattsAuth(dir, undefined, server.loginBase).loadTokens()).not.toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('writes setpoints and mode with PATCH /Device/{id}', async () => {
+    await auth.login(server.fixture.email, server.fixture.password);
+
+    await api.setDeviceHeatTemp('dev-living', 71);
+    const device = await api.setDeviceMode('dev-living', 'Auto');
+
+    expect(device.data.Target.Heat).toBe(71);
+    expect(device.data.Mode.Val).toBe('Auto');
+    expect(server.getDevice('dev-living')?.data.Mode.Val).toBe('Auto');
+  });
+
+  it('rejects Auto setpoints closer than TempInterlock', async () => {
+    await auth.login(server.fixture.email, server.fixture.password);
+    await api.setDeviceMode('dev-living', 'Auto');
+
+    await expect(api.setDeviceAutoTemps('dev-living', 75, 76)).rejects.toBeInstanceOf(WattsValidationError);
+    await expect(api.setDeviceAutoTemps('dev-living', 74, 76)).resolves.toBeTruthy();
+  });
+
+  it('refreshes once and retries when concurrent requests get a 401', async () => {
+    await auth.login(server.fixture.email, server.fixture.password);
+    server.revokeAccessTokens();
+
+    const devices = await Promise.all(['dev-living', 'dev-bath', 'dev-cabin'].map(id => api.getDevice(id)));
+
+    expect(devices.map(device => device.deviceId)).toEqual(['dev-living', 'dev-bath', 'dev-cabin']);
+    expect(server.stats.refreshes).toBe(1);
+  });
+
+  it('logs in again when the refresh token is rejected with invalid_grant', async () => {
+    auth.setCredentials(server.fixture.email, server.fixture.password);
+    await auth.login(server.fixture.email, server.fixture.password);
+    server.revokeAccessTokens();
+    server.revokeRefreshTokens();
+
+    const device = await api.getDevice('dev-living');
+
+    expect(device.name).toBe('Living Room');
+    expect(server.stats.logins).toBe(2);
+  });
+
+  it('fails with WattsAuthError on invalid_grant without stored credentials', async () => {
+    await auth.login(server.fixture.email, server.fixture.password);
+    server.revokeAccessTokens();
+    server.revokeRefreshTokens();
+
+    await expect(api.getDevice('dev-living')).rejects.toBeInstanceOf(WattsAuthError);
+    // The server keeps answering after rejecting the grant
+    await expect(auth.login(server.fixture.email, server.fixture.password)).resolves.toBeTruthy();
+  });
+
+  it('retries a 5xx and surfaces a persistent one as WattsServerError', async () => {
+    await auth.login(server.fixture.email, server.fixture.password);
+
+    server.injectFailure({ path: '/Device/', status: 503 });
+    await expect(api.getDevice('dev-living')).resolves.toMatchObject({ deviceId: 'dev-living' });
+
+    server.injectFailure({ path: '/Device/', status: 500, count: 3 });
+    await expect(api.getDevice('dev-living')).rejects.toBeInstanceOf(WattsServerError);
+  });
+
+  it('surfaces a persistent 429 as WattsRateLimitError with Retry-After', async () => {
+    await auth.login(server.fixture.email, server.fixture.password);
+    server.injectFailure({ path: '/Device/', status: 429, headers: { 'Retry-After': '7' }, count: 3 });
+
+    const error = await api.getDevice('dev-living').catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(WattsRateLimitError);
+    expect((error as WattsRateLimitError).retryAfter).toBe(7);
+  });
+});
+
+describe('FileTokenStore', () => {
+  const tokens = { access_token: 'access', refresh_token: 'refresh', expires_at: 0, refresh_token_expires_at: 0 };
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await tempDir();
+    file = path.join(dir, 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('migrates a plaintext token file to encrypted storage', async () => {
+    await fs.writeFile(file, JSON.stringify(tokens));
+
+    expect(await new FileTokenStore(file).load()).toEqual(tokens);
+    expect(await fs.readFile(file, 'utf-8')).not.toContain('access_token');
+    expect(await new FileTokenStore(file).load()).toEqual(tokens);
+  });
+
+  it('fails with WattsAuthError when the key changed or is missing', async () => {
+    await new FileTokenStore(file).save(tokens);
+
+    await fs.writeFile(path.join(dir, 'tokens.key'), 'another secret');
+    await expect(new FileTokenStore(file).load()).rejects.toThrow(WattsAuthError);
+
+    await fs.rm(path.join(dir, 'tokens.key'));
+    await expect(new FileTokenStore(file).load()).rejects.toThrow(WattsAuthError);
+  });
+
+  it('fails with WattsAuthError on a token file version it does not know', async () => {
+    await new FileTokenStore(file).save(tokens);
+    const stored = JSON.parse(await fs.readFile(file, 'utf-8'));
+    await fs.writeFile(file, JSON.stringify({ ...stored, version: 99 }));
+
+    await expect(new FileTokenStore(file).load()).rejects.toThrow(WattsAuthError);
+  });
+});
+
+describe('WattsAuth background refresh', () => {
+  let auth: WattsAuth;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    auth = new WattsAuth(undefined, new MemoryTokenStore());
+  });
+
+  afterEach(() => {
+    auth.stopBackgroundRefresh();
+    vi.useRealTimers();
+  });
+
+  it('refreshes on a timer and re-arms after each refresh or failure', async () => {
+    const onError = vi.fn();
+    const refresh = vi.spyOn(auth, 'refreshToken')
+      .mockRejectedValueOnce(new WattsServerError('HTTP 503: Service Unavailable'))
+      .mockResolvedValue({ access_token: 'a', refresh_token: 'r', expires_at: 0, refresh_token_expires_at: 0 });
+
+    auth.startBackgroundRefresh(onError);
+    await vi.advanceTimersByTimeAsync(30_000);
+    // The failure is logged to a file before the timer is re-armed
+    await vi.waitFor(() => expect(vi.getTimerCount()).toBe(1));
+    await vi.advanceTimersByTimeAsync(30_000);
+
+    expect(refresh).toHaveBeenCalledTimes(2);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('stays stopped when stopped while a refresh is in flight', async () => {
+    let finish: () => void = () => {};
+    const refresh = vi.spyOn(auth, 'refreshToken').mockImplementation(() => new Promise(resolve => {
+      finish = () => resolve({ access_token: 'a', refresh_token: 'r', expires_at: 0, refresh_token_expires_at: 0 });
+    }));
+
+    auth.startBackgroundRefresh();
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    auth.stopBackgroundRefresh();
+    finish();
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { FakeWattsServer } from '../src/fakeServer/fakeWattsServer.js';
+import { WattsAuth } from '../src/lib/api/auth.js';
+import { FileTokenStore } from '../src/lib/tokenStore.js';
+import { runCli, startServer, tempDir } from './harness.js';
+
+describe('watts-cli against the fake server', () => {
+  let server: FakeWattsServer;
+  let cwd: string;
+
+  beforeEach(async () => {
+    server = await startServer();
+    cwd = await tempDir();
+
+    // "watts-cli login" prompts on a terminal; log in through the library into the CLI's token file instead
+    const auth = new WattsAuth(undefined, new FileTokenStore(path.join(cwd, 'tokens.json')), server.loginBase);
+    await auth.login(server.fixture.email, server.fixture.password);
+    auth.stopBackgroundRefresh();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  const cli = (...args: string[]) => runCli(server, cwd, ...args);
+
+  it('lists locations and shows device status', async () => {
+    const locations = await cli('locations', 'list');
+    const status = await cli('devices', 'status', 'dev-bath');
+
+    expect(locations.code).toBe(0);
+    expect(locations.stdout).toContain('Lake Cabin');
+    expect(status.code).toBe(0);
+    expect(status.stdout).toContain('Device: Bathroom');
+    expect(status.stdout).toContain('Supported Modes: Off, Heat');
+  });
+
+  it('writes setpoints and mode', async () => {
+    expect((await cli('devices', 'temp', 'dev-living', '71')).code).toBe(0);
+    expect((await cli('devices', 'mode', 'dev-living', 'cool')).code).toBe(0);
+
+    expect(server.getDevice('dev-living')?.data.Target.Heat).toBe(71);
+    expect(server.getDevice('dev-living')?.data.Mode.Val).toBe('Cool');
+  });
+
+  it('rejects a mode the device does not support with the usage exit code', async () => {
+    const result = await cli('devices', 'mode', 'dev-bath', 'cool');
+
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain('does not support Cool mode');
+    expect(server.stats.patches).toBe(0);
+  });
+
+  it('places and clears holds without turning the schedule on', async () => {
+    const timed = await cli('devices', 'hold', 'dev-bath', '--hours', '2');
+    expect(timed.code).toBe(0);
+    expect(timed.stdout).toContain('Hold until');
+    expect(server.getDevice('dev-bath')?.data.Target.Hold).toBe(2);
+
+    expect((await cli('devices', 'hold', 'dev-bath')).code).toBe(0);
+    expect(server.getDevice('dev-bath')?.data.Target).toMatchObject({ Hold: 1, HoldUntil: null });
+
+    const resumed = await cli('devices', 'resume', 'dev-bath');
+    expect(resumed.code).toBe(0);
+    expect(resumed.stdout).toContain('schedule enable dev-bath');
+    expect(server.getDevice('dev-bath')?.data.Target.Hold).toBe(0);
+    expect(server.getDevice('dev-bath')?.data.SchedEnable.Val).toBe('Off');
+
+    expect((await cli('devices', 'hold', 'dev-bath', '--hours', '-1')).code).toBe(2);
+  });
+
+  it('shows a Hold value it does not know as unrecognized', async () => {
+    server.getDevice('dev-living')!.data.Target.Hold = 7;
+
+    const status = await cli('devices', 'status', 'dev-living');
+
+    expect(status.stdout).toContain('Schedule: Hold (unrecognized Hold value 7)');
+  });
+
+  it('refreshes an expired access token and keeps going', async () => {
+    server.revokeAccessTokens();
+
+    const result = await cli('devices', 'status', 'dev-living');
+
+    expect(result.code).toBe(0);
+    expect(server.stats.refreshes).toBe(1);
+  });
+
+  it('exits with the auth code when the refresh token is rejected', async () => {
+    server.revokeAccessTokens();
+    server.revokeRefreshTokens();
+
+    expect((await cli('devices', 'status', 'dev-living')).code).toBe(3);
+  });
+
+  it('exits with the auth code when the token file can no longer be decrypted', async () => {
+    await fs.writeFile(path.join(cwd, 'tokens.key'), 'another secret');
+
+    const result = await cli('devices', 'status', 'dev-living');
+
+    expect(result.code).toBe(3);
+    expect(result.stderr).toContain('log in again');
+  });
+
+  it('exits with the rate-limit code on a persistent 429', async () => {
+    server.injectFailure({ path: '/Device/', status: 429, headers: { 'Retry-After': '1' }, count: 3 });
+
+    expect((await cli('devices', 'status', 'dev-living')).code).toBe(4);
+  });
+
+  it('exits with the server code on a persistent 5xx', async () => {
+    server.injectFailure({ path: '/Device/', status: 502, count: 3 });
+
+    expect((await cli('devices', 'status', 'dev-living')).code).toBe(7);
+  });
+
+  it('exits with the offline code when writing to a disconnected device', async () => {
+    expect((await cli('devices', 'temp-heat', 'dev-basement', '60')).code).toBe(5);
+  });
+
+  it('round-trips the weekly schedule through show and set, and turns it on and off', async () => {
+    const file = path.join(cwd, 'schedule.json');
+    expect((await cli('schedule', 'show', 'dev-living', '--output', file)).code).toBe(0);
+
+    const schedule = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(schedule).toEqual({ Grp: null, Event: null });
+    schedule.Grp = [1, 2, 2, 2, 2, 2, 1];
+    schedule.Event = ['Wake', 'Sleep'];
+    schedule.Grp1 = [{ Time: 420, Heat: 70, Cool: 78 }, { Time: 1320, Heat: 64, Cool: 80 }];
+    await fs.writeFile(file, JSON.stringify(schedule));
+
+    expect((await cli('schedule', 'set', 'dev-living', file)).code).toBe(0);
+    expect(server.getDevice('dev-living')?.data.Schedule).toMatchObject({ ...schedule, Floor: { W: 71, A: 0 } });
+    expect(JSON.parse((await cli('schedule', 'show', 'dev-living')).stdout)).toEqual(schedule);
+
+    expect((await cli('schedule', 'disable', 'dev-living')).code).toBe(0);
+    expect(server.getDevice('dev-living')?.data.SchedEnable.Val).toBe('Off');
+    expect((await cli('schedule', 'enable', 'dev-living')).code).toBe(0);
+    expect(server.getDevice('dev-living')?.data.SchedEnable.Val).toBe('On');
+  });
+
+  it('rejects a malformed schedule file with the usage exit code', async () => {
+    await fs.writeFile(path.join(cwd, 'broken.json'), '{ "Grp1": ');
+    await fs.writeFile(path.join(cwd, 'invalid.json'), JSON.stringify({ Grp1: [{ Time: 360, Heat: 'warm', Cool: 78 }] }));
+
+    const broken = await cli('schedule', 'set', 'dev-living', 'broken.json');
+    const invalid = await cli('schedule', 'set', 'dev-living', 'invalid.json');
+
+    expect(broken.code).toBe(2);
+    expect(invalid.code).toBe(2);
+    expect(invalid.stderr).toContain('needs numeric Time, Heat and Cool');
+    expect(server.stats.patches).toBe(0);
+  });
+
+  it('exports the energy history the plugin saved without writing to it', async () => {
+    const historyFile = path.join(cwd, 'homebridge', 'homebridge-tekmar-wifi', 'energy', 'dev-living.json');
+    const saved = JSON.stringify({
+      deviceId: 'dev-living',
+      name: 'Living Room',
+      updatedAt: '2020-01-31T00:00:00.000Z',
+      daily: { '2020-01-01': { heat: 5, cool: 0 } },
+      monthly: {},
+    });
+    await fs.mkdir(path.dirname(historyFile), { recursive: true });
+    await fs.writeFile(historyFile, saved);
+
+    const result = await cli('energy', 'dev-living', '--storage', path.join(cwd, 'homebridge'));
+
+    expect(result.code).toBe(0);
+    expect(result.stdout).toMatch(/^date,heat,cool\n2020-01-01,5,0\n/);
+    expect(await fs.readFile(historyFile, 'utf-8')).toBe(saved);
+    expect((await fs.readdir(cwd)).sort()).toEqual(['homebridge', 'tokens.json', 'tokens.key']);
+  });
+});
@@ -0,0 +1,187 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { FakeWattsServer } from '../src/fakeServer/fakeWattsServer.js';
+import { fixtureDevice } from '../src/fakeServer/fixtures.js';
+import { startPlugin, startServer, waitFor, type PluginHarness } from './harness.js';
+
+describe('device re-discovery', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+    plugin = await startPlugin(server);
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  it('adds a thermostat added to the account without a restart', async () => {
+    const home = server.fixture.locations[0];
+    home.devices.push(fixtureDevice(home.location, { deviceId: 'dev-office', name: 'Office', room: 66 }));
+    expect(() => plugin.accessory('dev-office')).toThrow();
+
+    await plugin.platform.discoverDevices();
+
+    expect(plugin.accessory('dev-office').displayName).toBe('Office');
+    expect(plugin.accessory('dev-living').displayName).toBe('Living Room');
+  });
+
+  it('reports a failed discovery and keeps the existing accessories', async () => {
+    const accessories = plugin.accessories();
+    server.injectFailure({ path: '/Location', status: 500, count: 10 });
+
+    expect(await plugin.platform.discoverDevices()).toBe(false);
+    expect(plugin.accessories()).toEqual(accessories);
+    expect(plugin.accessory('dev-living').displayName).toBe('Living Room');
+  });
+});
+
+describe('accessory removal', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+    plugin = await startPlugin(server, { removalGracePeriod: 2 });
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  function removeBathroom() {
+    const home = server.fixture.locations[0];
+    home.devices = home.devices.filter(device => device.deviceId !== 'dev-bath');
+  }
+
+  it('keeps a missing thermostat until it has been missing for the grace period', async () => {
+    const bathroom = plugin.accessory('dev-bath');
+    removeBathroom();
+
+    await plugin.platform.discoverDevices();
+    expect(plugin.accessory('dev-bath')).toBe(bathroom);
+    expect(plugin.log.entries.map(entry => entry.message))
+      .toContain('Accessory Bathroom not found (missing from 1 discovery run(s)); keeping it for now');
+    const saved = JSON.parse(await fs.readFile(path.join(plugin.storagePath, 'homebridge-tekmar-wifi', 'missing-accessories.json'), 'utf-8'));
+    expect(JSON.stringify(saved)).toContain('Bathroom');
+
+    await plugin.platform.discoverDevices();
+    expect(() => plugin.accessory('dev-bath')).toThrow();
+  });
+
+  it('resets the count when a missing thermostat comes back', async () => {
+    const home = server.fixture.locations[0];
+    const devices = home.devices;
+    removeBathroom();
+    await plugin.platform.discoverDevices();
+
+    home.devices = devices;
+    await plugin.platform.discoverDevices();
+    removeBathroom();
+    await plugin.platform.discoverDevices();
+
+    expect(plugin.accessory('dev-bath').displayName).toBe('Bathroom');
+  });
+
+  it('leaves the accessories of a location whose devices could not be loaded alone', async () => {
+    removeBathroom();
+    server.injectFailure({ path: '/Location/loc-home/Devices', status: 500, count: 10 });
+
+    await plugin.platform.discoverDevices();
+    await plugin.platform.discoverDevices();
+
+    expect(plugin.accessory('dev-bath').displayName).toBe('Bathroom');
+    expect(plugin.accessory('dev-living').displayName).toBe('Living Room');
+    expect(plugin.log.entries.map(entry => entry.message))
+      .toContain('Not checking Bathroom: its location could not be loaded');
+  });
+});
+
+describe('device filters and overrides', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  function deviceIds() {
+    return plugin.accessories().map(accessory => accessory.context.device?.deviceId).filter(Boolean).sort();
+  }
+
+  it('registers only thermostats matching an include rule', async () => {
+    plugin = await startPlugin(server, { include: { names: ['*room', 'CAB?N'] } });
+
+    expect(deviceIds()).toEqual(['dev-bath', 'dev-cabin', 'dev-living']);
+  });
+
+  it('leaves out thermostats matching an exclude rule, also within included locations', async () => {
+    plugin = await startPlugin(server, { include: { locations: ['Home'] }, exclude: { deviceIds: ['dev-basement'] } });
+
+    expect(deviceIds()).toEqual(['dev-bath', 'dev-living']);
+    expect(plugin.log.entries.map(entry => entry.message)).toContain('Skipping filtered-out device: Basement (dev-basement)');
+  });
+
+  it('applies a per-device name and setpoint range', async () => {
+    plugin = await startPlugin(server, {
+      deviceOverrides: [{ deviceId: 'dev-cabin', name: 'Cabin Hall', minSetpoint: 8, maxSetpoint: 20 }],
+    });
+    const { Characteristic, Service } = plugin.api.hap;
+    const cabin = plugin.accessory('dev-cabin');
+    const target = cabin.getService(Service.Thermostat)!.getCharacteristic(Characteristic.TargetTemperature);
+
+    expect(cabin.displayName).toBe('Cabin Hall');
+    // The override narrows the device's own range once the first poll has reported it
+    await waitFor(() => target.props.minValue === 8);
+    expect(target.props.maxValue).toBe(20);
+    expect(plugin.accessory('dev-living').displayName).toBe('Living Room');
+  });
+});
+
+describe('locations', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  function thermostatNames() {
+    return plugin.accessories().filter(accessory => accessory.context.device).map(accessory => accessory.displayName).sort();
+  }
+
+  it('uses only the selected locations', async () => {
+    plugin = await startPlugin(server, { locations: ['loc-cabin'] });
+
+    expect(thermostatNames()).toEqual(['Cabin']);
+  });
+
+  it('skips locations shared by another user', async () => {
+    plugin = await startPlugin(server, { skipSharedLocations: true });
+
+    expect(thermostatNames()).toEqual(['Basement', 'Bathroom', 'Living Room']);
+    expect(plugin.accessories().some(accessory => accessory.context.location?.locationId === 'loc-cabin')).toBe(false);
+  });
+
+  it('prefixes names with the location or its alias, unless the name already starts with it', async () => {
+    plugin = await startPlugin(server, { locationPrefix: true, locationAliases: [{ location: 'Lake Cabin', alias: 'Cabin' }] });
+
+    expect(thermostatNames()).toEqual(['Cabin', 'Home Basement', 'Home Bathroom', 'Home Living Room']);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Integration test harness: a fake Watts Home server, the Homebridge platform running against it,
+ * and the compiled CLI pointed at it
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { promisify } from 'util';
+import type { Logging, PlatformAccessory, PlatformConfig } from 'homebridge';
+import { HomebridgeAPI, type InternalAPIEvent } from 'homebridge/lib/api.js';
+import { User } from 'homebridge/lib/user.js';
+
+import { FakeWattsServer, type FakeWattsServerOptions } from '../src/fakeServer/fakeWattsServer.js';
+import { defaultFixture, type FixtureAccount } from '../src/fakeServer/fixtures.js';
+import { TekmarHomebridgePlatform } from '../src/platform.js';
+import { PLATFORM_NAME } from '../src/settings.js';
+
+const run = promisify(execFile);
+const CLI = fileURLToPath(new URL('../dist/cli/index.js', import.meta.url));
+
+// Homebridge only lets the storage path be set once per process, so every plugin in a test file shares it
+const STORAGE_PATH = path.join(os.tmpdir(), `tekmar-test-storage-${process.pid}`);
+User.setStoragePath(STORAGE_PATH);
+
+export interface LogEntry {
+  level: string;
+  message: string;
+}
+
+export interface CapturedLog extends Logging {
+  entries: LogEntry[];
+}
+
+/**
+ * A Homebridge logger that keeps messages for assertions instead of printing them
+ */
+export function captureLog(): CapturedLog {
+  const entries: LogEntry[] = [];
+  const record = (level: string) => (message: string, ...parameters: unknown[]) => {
+    entries.push({ level, message: [message, ...parameters].join(' ') });
+  };
+  const log = Object.assign(record('info'), {
+    prefix: 'test',
+    entries,
+    info: record('info'),
+    success: record('success'),
+    warn: record('warn'),
+    error: record('error'),
+    debug: record('debug'),
+    log: (level: string, message: string, ...parameters: unknown[]) => record(level)(message, ...parameters),
+  });
+  return log as CapturedLog;
+}
+
+/**
+ * Start a fake server with the default fixture (or the given one)
+ */
+export async function startServer(fixture: FixtureAccount = defaultFixture(), options: FakeWattsServerOptions = {}) {
+  const server = new FakeWattsServer(fixture, options);
+  await server.start();
+  return server;
+}
+
+/**
+ * Make a temporary directory (callers remove it)
+ */
+export async function tempDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'tekmar-test-'));
+}
+
+/**
+ * Poll `check` until it returns something truthy (or stops throwing)
+ */
+export async function waitFor<T>(check: () => T | Promise<T>, timeoutMs = 5000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  let lastError: unknown;
+  while (Date.now() < deadline) {
+    try {
+      const result = await check();
+      if (result) {
+        return result;
+      }
+    } catch (error: unknown) {
+      lastError = error;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+  throw lastError ?? new Error('Timed out waiting for condition');
+}
+
+export interface PluginHarness {
+  api: HomebridgeAPI;
+  platform: TekmarHomebridgePlatform;
+  log: CapturedLog;
+  storagePath: string;
+  accessory(deviceId: string): PlatformAccessory;
+  accessories(): PlatformAccessory[];
+  stop(): Promise<void>;
+}
+
+/**
+ * Run the platform against the fake server the way Homebridge does: construct it, signal
+ * didFinishLaunching, and wait until the first discovery has registered its accessories
+ */
+export async function startPlugin(server: FakeWattsServer, config: Partial<PlatformConfig> = {}): Promise<PluginHarness> {
+  const storagePath = STORAGE_PATH;
+  await fs.mkdir(storagePath, { recursive: true });
+
+  const api = new HomebridgeAPI();
+  const log = captureLog();
+  const registered: PlatformAccessory[] = [];
+  // InternalAPIEvent is a const enum, which the test transpiler can't inline
+  const registerEvent = 'registerPlatformAccessories' as InternalAPIEvent.REGISTER_PLATFORM_ACCESSORIES;
+  const unregisterEvent = 'unregisterPlatformAccessories' as InternalAPIEvent.UNREGISTER_PLATFORM_ACCESSORIES;
+  api.on(registerEvent, (accessories: PlatformAccessory[]) => registered.push(...accessories));
+  api.on(unregisterEvent, (accessories: PlatformAccessory[]) => {
+    for (const accessory of accessories) {
+      registered.splice(registered.indexOf(accessory), 1);
+    }
+  });
+
+  const platform = new TekmarHomebridgePlatform(log, {
+    platform: PLATFORM_NAME,
+    email: server.fixture.email,
+    password: server.fixture.password,
+    loginBaseUrl: server.loginBase,
+    apiBaseUrl: server.apiBase,
+    energyHistory: false,
+    ...config,
+  }, api);
+  api.signalFinished();
+
+  await waitFor(() => log.entries.some(entry => entry.message.startsWith('Total devices discovered')));
+
+  return {
+    api,
+    platform,
+    log,
+    storagePath,
+    accessory(deviceId: string) {
+      const accessory = registered.find(candidate => candidate.context.device?.deviceId === deviceId);
+      if (!accessory) {
+        throw new Error(`No accessory registered for ${deviceId}`);
+      }
+      return accessory;
+    },
+    accessories() {
+      return [...registered];
+    },
+    async stop() {
+      api.signalShutdown();
+      await fs.rm(storagePath, { recursive: true, force: true });
+    },
+  };
+}
+
+export interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run the compiled CLI (npm test builds it first) in `cwd` against the fake server
+ */
+export async function runCli(server: FakeWattsServer, cwd: string, ...args: string[]): Promise<CliResult> {
+  try {
+    const { stdout, stderr } = await run(process.execPath, [CLI, ...args], {
+      cwd,
+      env: { ...process.env, WATTS_LOGIN_BASE: server.loginBase, WATTS_API_BASE: server.apiBase },
+    });
+    return { code: 0, stdout, stderr };
+  } catch (error: unknown) {
+    const failed = error as { code?: number; stdout?: string; stderr?: string };
+    return { code: failed.code ?? 1, stdout: failed.stdout ?? '', stderr: failed.stderr ?? '' };
+  }
+}
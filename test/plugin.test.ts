@@ -0,0 +1,566 @@
+import { HAPStatus } from 'homebridge';
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+
+import type { FakeWattsServer } from '../src/fakeServer/fakeWattsServer.js';
+import { startPlugin, startServer, waitFor, type PluginHarness } from './harness.js';
+
+describe('platform against the fake server', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+    plugin = await startPlugin(server);
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  function thermostat(deviceId: string) {
+    return plugin.accessory(deviceId).getService(plugin.api.hap.Service.Thermostat)!;
+  }
+
+  it('logs in and registers a thermostat accessory for every device', () => {
+    const { Service } = plugin.api.hap;
+
+    expect(server.stats.logins).toBe(1);
+    for (const deviceId of ['dev-living', 'dev-bath', 'dev-basement', 'dev-cabin']) {
+      expect(plugin.accessory(deviceId).getService(Service.Thermostat)).toBeDefined();
+    }
+    expect(plugin.accessory('dev-living').displayName).toBe('Living Room');
+  });
+
+  it('reports the polled device state in HomeKit units', async () => {
+    const { Characteristic } = plugin.api.hap;
+    const cabin = thermostat('dev-cabin');
+
+    await waitFor(() => cabin.getCharacteristic(Characteristic.CurrentTemperature).value === 12.5);
+    expect(cabin.getCharacteristic(Characteristic.TargetTemperature).value).toBe(10);
+    expect(cabin.getCharacteristic(Characteristic.TargetHeatingCoolingState).value)
+      .toBe(Characteristic.TargetHeatingCoolingState.HEAT);
+    expect(thermostat('dev-living').getCharacteristic(Characteristic.CurrentTemperature).value).toBe(20);
+  });
+
+  it('writes a HomeKit setpoint to the device in its own units', async () => {
+    const { Characteristic } = plugin.api.hap;
+
+    await thermostat('dev-living').getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(22);
+
+    await waitFor(() => server.getDevice('dev-living')?.data.Target.Heat === 72);
+    expect(server.stats.patches).toBe(1);
+  });
+
+  it('writes a HomeKit mode change to the device', async () => {
+    const { Characteristic } = plugin.api.hap;
+
+    await thermostat('dev-living').getCharacteristic(Characteristic.TargetHeatingCoolingState)
+      .handleSetRequest(Characteristic.TargetHeatingCoolingState.COOL);
+
+    await waitFor(() => server.getDevice('dev-living')?.data.Mode.Val === 'Cool');
+  });
+
+  it('routes threshold writes through the write queue after switching to Auto', async () => {
+    const { Characteristic } = plugin.api.hap;
+    const living = thermostat('dev-living');
+    await waitFor(() => living.getCharacteristic(Characteristic.CurrentTemperature).value === 20);
+
+    await living.getCharacteristic(Characteristic.TargetHeatingCoolingState).handleSetRequest(Characteristic.TargetHeatingCoolingState.AUTO);
+    expect(living.testCharacteristic(Characteristic.HeatingThresholdTemperature)).toBe(true);
+    await living.getCharacteristic(Characteristic.HeatingThresholdTemperature).handleSetRequest(21);
+
+    await waitFor(() => server.getDevice('dev-living')?.data.Target.Heat === 70);
+    expect(server.getDevice('dev-living')?.data).toMatchObject({ Mode: { Val: 'Auto' }, Target: { Cool: 76 } });
+    expect(server.stats.patches).toBe(2);
+  });
+
+  it('keeps Auto thresholds TempInterlock apart after switching to Auto', async () => {
+    const { Characteristic } = plugin.api.hap;
+    const living = thermostat('dev-living');
+    await waitFor(() => living.getCharacteristic(Characteristic.CurrentTemperature).value === 20);
+    await living.getCharacteristic(Characteristic.TargetHeatingCoolingState).handleSetRequest(Characteristic.TargetHeatingCoolingState.AUTO);
+
+    // 24°C is 75°F, within 2°F of the 76°F cool setpoint: cool is pushed up to 77°F
+    await living.getCharacteristic(Characteristic.HeatingThresholdTemperature).handleSetRequest(24);
+    await waitFor(() => server.getDevice('dev-living')?.data.Target.Heat === 75);
+    expect(server.getDevice('dev-living')?.data.Target.Cool).toBe(77);
+    expect(living.getCharacteristic(Characteristic.CoolingThresholdTemperature).value).toBe(25);
+
+    // 23.5°C is 74°F: heat is pulled down to 72°F
+    await living.getCharacteristic(Characteristic.CoolingThresholdTemperature).handleSetRequest(23.5);
+    await waitFor(() => server.getDevice('dev-living')?.data.Target.Cool === 74);
+    expect(server.getDevice('dev-living')?.data.Target.Heat).toBe(72);
+  });
+
+  it('holds and resumes the schedule from the Following Schedule switch', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    const follow = (await waitFor(() => plugin.accessory('dev-living').getServiceById(Service.Switch, 'follow-schedule')))!
+      .getCharacteristic(Characteristic.On);
+    await waitFor(() => follow.value === true);
+
+    // A setpoint change holds until the next schedule event
+    await thermostat('dev-living').getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(22);
+    await waitFor(() => server.getDevice('dev-living')?.data.Target.Hold === 2);
+
+    await follow.handleSetRequest(true);
+    expect(server.getDevice('dev-living')?.data.Target).toMatchObject({ Hold: 0, HoldUntil: null });
+
+    await follow.handleSetRequest(false);
+    expect(server.getDevice('dev-living')?.data.Target).toMatchObject({ Hold: 1, HoldUntil: null });
+    expect(server.getDevice('dev-living')?.data.SchedEnable.Val).toBe('On');
+  });
+
+  it('leaves turning the schedule on to the Schedule switch', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    const follow = (await waitFor(() => plugin.accessory('dev-bath').getServiceById(Service.Switch, 'follow-schedule')))!
+      .getCharacteristic(Characteristic.On);
+    expect(follow.value).toBe(false);
+
+    await expect(follow.handleSetRequest(true)).rejects.toBe(HAPStatus.INVALID_VALUE_IN_REQUEST);
+    expect(server.stats.patches).toBe(0);
+    expect(server.getDevice('dev-bath')?.data.SchedEnable.Val).toBe('Off');
+  });
+
+  it('renames every service of a renamed device on re-discovery', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    await waitFor(() => plugin.accessory('dev-living').getServiceById(Service.Fanv2, 'fan'));
+    await waitFor(() => plugin.accessory('dev-bath').getServiceById(Service.Thermostat, 'floor-min'));
+
+    server.getDevice('dev-living')!.name = 'Great Room';
+    server.getDevice('dev-bath')!.name = 'Spa';
+    await plugin.platform.discoverDevices();
+
+    for (const [deviceId, name] of [['dev-living', 'Great Room'], ['dev-bath', 'Spa']]) {
+      const accessory = plugin.accessory(deviceId);
+      expect(accessory.displayName).toBe(name);
+      expect(accessory.context.device.name).toBe(name);
+      const names = accessory.services.map(service => String(service.getCharacteristic(Characteristic.Name).value));
+      expect(names.length).toBeGreaterThan(2);
+      expect(names.filter(serviceName => !serviceName.startsWith(name))).toEqual([]);
+    }
+  });
+
+  it('refreshes the access token when the API answers 401', async () => {
+    const { Characteristic } = plugin.api.hap;
+    server.revokeAccessTokens();
+
+    await thermostat('dev-cabin').getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(15);
+
+    await waitFor(() => server.getDevice('dev-cabin')?.data.Target.Heat === 15);
+    expect(server.stats.refreshes).toBe(1);
+  });
+
+  it('logs in again when the refresh token is rejected', async () => {
+    const { Characteristic } = plugin.api.hap;
+    server.revokeAccessTokens();
+    server.revokeRefreshTokens();
+
+    await thermostat('dev-cabin').getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(15);
+
+    await waitFor(() => server.getDevice('dev-cabin')?.data.Target.Heat === 15);
+    expect(server.stats.logins).toBe(2);
+  });
+
+  it('reports a failed write to HomeKit as a communication failure', async () => {
+    const { Characteristic } = plugin.api.hap;
+    server.injectFailure({ path: '/Device/dev-living', status: 500, count: 3 });
+
+    // HAP rejects with the status code it answers the controller with
+    await expect(thermostat('dev-living').getCharacteristic(Characteristic.TargetTemperature).handleSetRequest(22))
+      .rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  });
+});
+
+describe('polling against a failing fake server', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness | undefined;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await plugin?.stop();
+    await server.stop();
+  });
+
+  it('backs off for at least the Retry-After of a 429', async () => {
+    server.injectFailure({ path: '/Device/', status: 429, headers: { 'Retry-After': '30' }, count: 3 });
+    plugin = await startPlugin(server, { pollingInterval: 10 });
+
+    await waitFor(() => plugin!.log.entries.some(entry => entry.message.includes('throttling or unavailable')));
+    expect(plugin.log.entries.find(entry => entry.level === 'warn')?.message).toMatch(/next poll in 30s$/);
+  });
+
+  it('backs off while the API keeps answering 5xx', async () => {
+    server.injectFailure({ path: '/Device/', status: 503, count: 3 });
+    plugin = await startPlugin(server, { pollingInterval: 10 });
+
+    await waitFor(() => plugin!.log.entries.some(entry => entry.message.includes('throttling or unavailable')));
+    expect(plugin.log.entries.find(entry => entry.level === 'warn')?.message).toMatch(/next poll in 20s$/);
+  });
+
+  it('reports recovery once, only after a cycle that read a device', async () => {
+    server.injectFailure({ path: '/Device/', status: 429, count: 3 });
+    // The cycle after the backoff is not throttled, but every poll in it fails
+    server.injectFailure({ path: '/Device/', status: 404, count: 3 });
+    plugin = await startPlugin(server, { pollingInterval: 1 });
+    const log = plugin.log;
+    for (const deviceId of ['dev-living', 'dev-bath', 'dev-basement', 'dev-cabin']) {
+      plugin.platform.getPoller().on(`device:${deviceId}`, () => log.entries.push({ level: 'test', message: `Read ${deviceId}` }));
+    }
+
+    const messages = () => log.entries.map(entry => entry.message);
+    await waitFor(() => messages().some(message => message.includes('recovered')), 15000);
+
+    const recovered = messages().filter(message => message.includes('recovered'));
+    const firstRead = messages().findIndex(message => message.startsWith('Read '));
+    expect(recovered).toHaveLength(1);
+    expect(firstRead).toBeGreaterThan(-1);
+    expect(messages().indexOf(recovered[0])).toBeGreaterThan(firstRead);
+  });
+});
+
+describe('HomeKit characteristic setup', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+  let warnings: MockInstance<typeof console.warn>;
+
+  beforeEach(async () => {
+    // HAP reports characteristic warnings on the console when nothing else listens for them
+    warnings = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    server = await startServer();
+    plugin = await startPlugin(server);
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+    warnings.mockRestore();
+  });
+
+  function warningsAbout(text: string) {
+    return warnings.mock.calls.map(call => String(call[0])).filter(message => message.includes(text));
+  }
+
+  it('creates floor setpoint services without invalid-value warnings', async () => {
+    const { Service } = plugin.api.hap;
+    const bath = plugin.accessory('dev-bath');
+
+    await waitFor(() => bath.getServiceById(Service.Thermostat, 'floor-min'));
+
+    expect(warningsAbout('Floor Minimum')).toEqual([]);
+  });
+
+  it('keeps the floor setpoint range on the step grid', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    const floorMin = (await waitFor(() => plugin.accessory('dev-bath').getServiceById(Service.Thermostat, 'floor-min')))!;
+    const target = floorMin.getCharacteristic(Characteristic.TargetTemperature);
+    await waitFor(() => target.props.minStep === 0.5);
+
+    // FloorMin / FloorMax of 40°F / 85°F (4.4°C / 29.4°C), widened onto the half-degree grid
+    expect(target.props).toMatchObject({ minValue: 4, maxValue: 29.5, minStep: 0.5 });
+    expect(target.value).toBe(21.5);
+
+    await target.handleSetRequest(29.5);
+    expect(server.getDevice('dev-bath')?.data.Schedule.Floor.W).toBe(85);
+  });
+
+  it('narrows setpoint ranges without illegal-value warnings, also when switching to Auto', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    const living = plugin.accessory('dev-living').getService(Service.Thermostat)!;
+    await waitFor(() => living.getCharacteristic(Characteristic.CurrentTemperature).value === 20);
+
+    await living.getCharacteristic(Characteristic.TargetHeatingCoolingState).handleSetRequest(Characteristic.TargetHeatingCoolingState.AUTO);
+
+    expect(warningsAbout('illegal value')).toEqual([]);
+    // 68°F and 76°F land on the half-degree grid instead of drifting with the 40°F / 45°F minimums
+    expect(living.getCharacteristic(Characteristic.HeatingThresholdTemperature).value).toBe(20);
+    expect(living.getCharacteristic(Characteristic.CoolingThresholdTemperature).value).toBe(24.5);
+  });
+});
+
+describe('Auto threshold characteristics', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+    server.getDevice('dev-living')!.data.Mode.Val = 'Auto';
+    plugin = await startPlugin(server);
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  function thermostat(deviceId: string) {
+    return plugin.accessory(deviceId).getService(plugin.api.hap.Service.Thermostat)!;
+  }
+
+  it('exist only on devices in Auto mode', async () => {
+    const { Characteristic } = plugin.api.hap;
+    await waitFor(() => thermostat('dev-living').testCharacteristic(Characteristic.HeatingThresholdTemperature));
+    await waitFor(() => thermostat('dev-cabin').getCharacteristic(Characteristic.CurrentTemperature).value === 12.5);
+
+    for (const deviceId of ['dev-bath', 'dev-cabin']) {
+      expect(thermostat(deviceId).testCharacteristic(Characteristic.HeatingThresholdTemperature)).toBe(false);
+      expect(thermostat(deviceId).testCharacteristic(Characteristic.CoolingThresholdTemperature)).toBe(false);
+    }
+    expect(thermostat('dev-living').getCharacteristic(Characteristic.CoolingThresholdTemperature).props.minValue).toBe(7);
+  });
+
+  it('send threshold writes to the device', async () => {
+    const { Characteristic } = plugin.api.hap;
+    const living = thermostat('dev-living');
+    await waitFor(() => living.testCharacteristic(Characteristic.HeatingThresholdTemperature));
+
+    await living.getCharacteristic(Characteristic.HeatingThresholdTemperature).handleSetRequest(21);
+
+    await waitFor(() => server.getDevice('dev-living')?.data.Target.Heat === 70);
+    expect(server.getDevice('dev-living')?.data.Target.Cool).toBe(76);
+  });
+});
+
+describe('device problems', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+    plugin = await startPlugin(server, { pollingInterval: 1 });
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  it('offline thermostats fail HomeKit reads until the device reconnects', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    const basement = plugin.accessory('dev-basement').getService(Service.Thermostat)!;
+    const read = (characteristic: typeof Characteristic.CurrentTemperature) => basement.getCharacteristic(characteristic).handleGetRequest();
+
+    await waitFor(() => basement.getCharacteristic(Characteristic.StatusFault).value === Characteristic.StatusFault.GENERAL_FAULT);
+    await expect(read(Characteristic.CurrentTemperature)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    await expect(read(Characteristic.TargetHeatingCoolingState)).rejects.toBe(HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+    await expect(read(Characteristic.StatusFault)).resolves.toBe(Characteristic.StatusFault.GENERAL_FAULT);
+
+    server.getDevice('dev-basement')!.isConnected = true;
+
+    await waitFor(() => basement.getCharacteristic(Characteristic.StatusFault).value === Characteristic.StatusFault.NO_FAULT);
+    await expect(read(Characteristic.CurrentTemperature)).resolves.toBeCloseTo(16.7, 1);
+    await expect(read(Characteristic.TargetHeatingCoolingState)).resolves.toBe(Characteristic.TargetHeatingCoolingState.OFF);
+  });
+
+  it('a faulty room sensor sets StatusFault and keeps the last good reading', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    const living = plugin.accessory('dev-living').getService(Service.Thermostat)!;
+    await waitFor(() => living.getCharacteristic(Characteristic.CurrentTemperature).value === 20);
+
+    server.getDevice('dev-living')!.data.Sensors.Room = { Val: -40, Status: 'Open' };
+
+    await waitFor(() => living.getCharacteristic(Characteristic.StatusFault).value === Characteristic.StatusFault.GENERAL_FAULT);
+    expect(living.getCharacteristic(Characteristic.CurrentTemperature).value).toBe(20);
+    expect(plugin.log.entries.some(entry => entry.level === 'warn' && entry.message.includes('Room sensor on Living Room'))).toBe(true);
+  });
+});
+
+describe('outdoor temperature accessory', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+    plugin = await startPlugin(server, { pollingInterval: 1, removalGracePeriod: 2 });
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  function outdoorAccessory() {
+    return plugin.accessories().find(accessory => accessory.context.kind === 'outdoor');
+  }
+
+  it('is removed after the grace period once no thermostat reports an outdoor sensor', async () => {
+    const { Characteristic, Service } = plugin.api.hap;
+    const outdoor = (await waitFor(outdoorAccessory))!;
+    expect(outdoor.context.location.locationId).toBe('loc-home');
+    expect(outdoor.getService(Service.TemperatureSensor)!.getCharacteristic(Characteristic.CurrentTemperature).value).toBe(5);
+
+    await plugin.platform.discoverDevices();
+    expect(outdoorAccessory()).toBe(outdoor);
+
+    delete server.getDevice('dev-living')!.data.Sensors.Outdoor;
+    await waitFor(async () => {
+      await plugin.platform.discoverDevices();
+      return plugin.log.entries.some(entry => entry.message.startsWith('Accessory Home Outdoor not found'));
+    });
+    expect(outdoorAccessory()).toBe(outdoor);
+
+    await plugin.platform.discoverDevices();
+    expect(outdoorAccessory()).toBeUndefined();
+  });
+});
+
+describe('floor sensor', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  it('is a linked temperature sensor that flags a faulty probe and keeps its last reading', async () => {
+    plugin = await startPlugin(server, { pollingInterval: 1 });
+    const { Characteristic, Service } = plugin.api.hap;
+    const bath = plugin.accessory('dev-bath');
+    const floor = (await waitFor(() => bath.getServiceById(Service.TemperatureSensor, 'floor')))!;
+    const temperature = floor.getCharacteristic(Characteristic.CurrentTemperature);
+
+    // 76°F
+    await waitFor(() => temperature.value !== 0);
+    expect(temperature.value).toBeCloseTo(24.4, 1);
+    expect(bath.getService(Service.Thermostat)!.linkedServices).toContain(floor);
+    expect(plugin.accessory('dev-living').getServiceById(Service.TemperatureSensor, 'floor')).toBeUndefined();
+
+    server.getDevice('dev-bath')!.data.Sensors.Floor = { Val: -40, Status: 'Open' };
+
+    await waitFor(() => floor.getCharacteristic(Characteristic.StatusFault).value === Characteristic.StatusFault.GENERAL_FAULT);
+    expect(floor.getCharacteristic(Characteristic.StatusActive).value).toBe(false);
+    expect(temperature.value).toBeCloseTo(24.4, 1);
+  });
+
+  it('is left out for a device whose override turns it off', async () => {
+    plugin = await startPlugin(server, { deviceOverrides: [{ deviceId: 'dev-bath', floorSensor: false }] });
+    const { Characteristic, Service } = plugin.api.hap;
+    const bath = plugin.accessory('dev-bath');
+    await waitFor(() => bath.getService(Service.Thermostat)!.getCharacteristic(Characteristic.CurrentTemperature).value !== 0);
+
+    expect(bath.getServiceById(Service.TemperatureSensor, 'floor')).toBeUndefined();
+  });
+});
+
+describe('away switch', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  function awaySwitch(locationId: string) {
+    const accessory = plugin.accessories().find(candidate => candidate.context.kind === 'away' && candidate.context.location.locationId === locationId);
+    return accessory?.getService(plugin.api.hap.Service.Switch)?.getCharacteristic(plugin.api.hap.Characteristic.On);
+  }
+
+  it('sets the location away and follows away changes made elsewhere', async () => {
+    plugin = await startPlugin(server, { pollingInterval: 1 });
+    const home = awaySwitch('loc-home')!;
+    expect(home.value).toBe(false);
+
+    await home.handleSetRequest(true);
+    expect(server.fixture.locations[0].location.awayState).toBe(1);
+
+    server.fixture.locations[1].location.awayState = 1;
+    await waitFor(() => awaySwitch('loc-cabin')?.value === true);
+  });
+
+  it('is not created when turned off in the config', async () => {
+    plugin = await startPlugin(server, { awaySwitch: false });
+
+    expect(awaySwitch('loc-home')).toBeUndefined();
+    expect(plugin.accessories().some(accessory => accessory.context.kind === 'away')).toBe(false);
+  });
+});
+
+describe('schedule switch', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  it('shows and sets whether the weekly schedule is on', async () => {
+    plugin = await startPlugin(server);
+    const { Characteristic, Service } = plugin.api.hap;
+    const living = plugin.accessory('dev-living');
+    const on = (await waitFor(() => living.getServiceById(Service.Switch, 'schedule')))!.getCharacteristic(Characteristic.On);
+    expect(living.getService(Service.Thermostat)!.linkedServices).toContain(living.getServiceById(Service.Switch, 'schedule'));
+    await waitFor(() => on.value === true);
+
+    await on.handleSetRequest(false);
+    expect(server.getDevice('dev-living')?.data.SchedEnable.Val).toBe('Off');
+  });
+
+  it('is not created when turned off in the config', async () => {
+    plugin = await startPlugin(server, { scheduleSwitch: false });
+    const { Characteristic, Service } = plugin.api.hap;
+    const living = plugin.accessory('dev-living');
+    await waitFor(() => living.getService(Service.Thermostat)!.getCharacteristic(Characteristic.CurrentTemperature).value === 20);
+
+    expect(living.getServiceById(Service.Switch, 'schedule')).toBeUndefined();
+  });
+});
+
+describe('fan service', () => {
+  let server: FakeWattsServer;
+  let plugin: PluginHarness;
+
+  beforeEach(async () => {
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await plugin.stop();
+    await server.stop();
+  });
+
+  it('shows the fan relay and writes the fan mode on units with a fan', async () => {
+    plugin = await startPlugin(server);
+    const { Characteristic, Service } = plugin.api.hap;
+    const living = plugin.accessory('dev-living');
+    const fan = (await waitFor(() => living.getServiceById(Service.Fanv2, 'fan')))!;
+
+    expect(living.getService(Service.Thermostat)!.linkedServices).toContain(fan);
+    expect(fan.getCharacteristic(Characteristic.Active).value).toBe(Characteristic.Active.ACTIVE);
+    expect(fan.getCharacteristic(Characteristic.CurrentFanState).value).toBe(Characteristic.CurrentFanState.BLOWING_AIR);
+    expect(fan.getCharacteristic(Characteristic.TargetFanState).value).toBe(Characteristic.TargetFanState.AUTO);
+    expect(plugin.accessory('dev-bath').getServiceById(Service.Fanv2, 'fan')).toBeUndefined();
+
+    await fan.getCharacteristic(Characteristic.TargetFanState).handleSetRequest(Characteristic.TargetFanState.MANUAL);
+    expect(server.getDevice('dev-living')?.data.Fan.Val).toBe('On');
+
+    await fan.getCharacteristic(Characteristic.Active).handleSetRequest(Characteristic.Active.INACTIVE);
+    expect(server.getDevice('dev-living')?.data.Fan.Val).toBe('Auto');
+  });
+
+  it('is left out for a device whose override turns it off', async () => {
+    plugin = await startPlugin(server, { deviceOverrides: [{ deviceId: 'dev-living', fan: false }] });
+    const { Characteristic, Service } = plugin.api.hap;
+    const living = plugin.accessory('dev-living');
+    await waitFor(() => living.getService(Service.Thermostat)!.getCharacteristic(Characteristic.CurrentTemperature).value === 20);
+
+    expect(living.getServiceById(Service.Fanv2, 'fan')).toBeUndefined();
+  });
+});
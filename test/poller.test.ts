@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { FakeWattsServer } from '../src/fakeServer/fakeWattsServer.js';
+import { WattsAuth } from '../src/lib/api/auth.js';
+import { WattsApiClient } from '../src/lib/api/client.js';
+import { MemoryTokenStore } from '../src/lib/tokenStore.js';
+import { DevicePoller } from '../src/poller.js';
+import { captureLog, startServer, waitFor, type CapturedLog } from './harness.js';
+
+const OPTIONS = { interval: 30, adaptive: true, burstInterval: 1, burstWindow: 60, activeInterval: 10, idleInterval: 120 };
+
+describe('DevicePoller adaptive intervals', () => {
+  let server: FakeWattsServer;
+  let auth: WattsAuth;
+  let api: WattsApiClient;
+  let log: CapturedLog;
+  let poller: DevicePoller;
+
+  beforeEach(async () => {
+    server = await startServer();
+    auth = new WattsAuth(undefined, new MemoryTokenStore(), server.loginBase);
+    await auth.login(server.fixture.email, server.fixture.password);
+    api = new WattsApiClient(auth, server.apiBase);
+    log = captureLog();
+  });
+
+  afterEach(async () => {
+    poller.stop();
+    auth.stopBackgroundRefresh();
+    await server.stop();
+  });
+
+  // The fake server derives Op from the room temperature, so satisfy each zone's heat setpoint
+  function satisfy(...deviceIds: string[]): void {
+    for (const deviceId of deviceIds) {
+      const { data } = server.getDevice(deviceId)!;
+      data.Target.Heat = data.Sensors.Room.Val - 5;
+    }
+  }
+
+  async function nextInterval(after = 0): Promise<number> {
+    const entry = await waitFor(() => log.entries.slice(after).find(candidate => candidate.message.startsWith('Next poll for location loc-home')));
+    return Number(/in (\d+)s/.exec(entry!.message)![1]);
+  }
+
+  // Poll the home location's devices once and return the interval chosen for the next poll
+  async function firstInterval(options = OPTIONS): Promise<number> {
+    poller = new DevicePoller(api, log, options);
+    for (const deviceId of ['dev-living', 'dev-bath']) {
+      poller.register(deviceId, 'loc-home', () => undefined, () => undefined);
+    }
+    poller.start();
+    return nextInterval();
+  }
+
+  it('uses the normal interval while zones are idle', async () => {
+    satisfy('dev-living', 'dev-bath');
+
+    expect(await firstInterval()).toBe(30);
+  });
+
+  it('polls faster while a zone is heating or cooling', async () => {
+    satisfy('dev-living');
+
+    expect(await firstInterval()).toBe(10);
+  });
+
+  it('polls slower while the location is away or every zone is off', async () => {
+    satisfy('dev-living', 'dev-bath');
+    server.getDevice('dev-living')!.location.awayState = 1;
+    server.getDevice('dev-bath')!.location.awayState = 1;
+    expect(await firstInterval()).toBe(120);
+    poller.stop();
+
+    server.getDevice('dev-living')!.location.awayState = 0;
+    server.getDevice('dev-bath')!.location.awayState = 0;
+    server.getDevice('dev-living')!.data.Mode.Val = 'Off';
+    server.getDevice('dev-bath')!.data.Mode.Val = 'Off';
+    log.entries.length = 0;
+    expect(await firstInterval()).toBe(120);
+  });
+
+  it('bursts after a write', async () => {
+    satisfy('dev-living', 'dev-bath');
+    expect(await firstInterval()).toBe(30);
+    const seen = log.entries.length;
+
+    await api.setDeviceHeatTemp('dev-living', 60);
+
+    expect(await nextInterval(seen)).toBe(1);
+  });
+
+  it('uses only the normal interval when adaptive polling is off', async () => {
+
+    expect(await firstInterval({ ...OPTIONS, adaptive: false })).toBe(30);
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Every file starts its own fake server and plugin; run them one at a time
+    fileParallelism: false,
+    testTimeout: 20000,
+  },
+});